@@ -1,16 +1,67 @@
 import type {
-    AbortedFetchResult,
+    AuthOptions,
     AutoAbortKey,
-    BodyParserFn,
+    BodySerializerFn,
+    CacheEntry,
+    CacheOptions,
+    CacheStore,
     CloneOptions,
+    CsrfOptions,
+    DedupeOptions,
+    FetchFailureKind,
     FetchFn,
     FetchFnInit,
     FetchFnUrl,
+    FetchAbortEvent,
+    FetchAutoAbortSupersededEvent,
+    FetchBodyParsedEvent,
+    FetchErrorEvent,
+    FetchEventBase,
+    FetcherEventListener,
+    FetcherEvents,
+    FetcherResult,
+    FetchRequestEvent,
+    FetchResponseEvent,
     FetchResult,
+    JsonOptions,
+    OkFetchResult,
+    OthersFetchResult,
+    PaginationOptions,
+    InferSchemaOutput,
+    InvalidBodyFetchResult,
+    Middleware,
+    MiddlewareContext,
+    ProcessorOptions,
     ProcessorPattern,
-    StatusCode
+    QuerySerializer,
+    QuerySerializerOptions,
+    RetryOptions,
+    ShortcutArgs,
+    ShortcutWithBodyArgs,
+    StandardSchemaV1,
+    StatusCode,
+    StockParsers,
+    Tracer,
+    TracingOptions,
+    TracingSpan
 } from "./types.js";
-import { hasHeader, setHeaders } from "./headers.js";
+import { getHeader, hasHeader, mergeHeaders, parseLinkHeader, removeHeader } from "./headers.js";
+import type { HeaderInput } from "./headers.js";
+import { computeRetryDelay, isRetriable, resolveRetryOptions, wait } from "./retry.js";
+import { appendQueryString, expandUrlTemplate, isAbsoluteUrl, joinUrl, originOf } from "./url.js";
+import { createQuerySerializer } from "./query.js";
+import { createCacheEntry, credentialsKey, getFreshness, matchesVary } from "./cache.js";
+import { MemoryCacheStore } from "./MemoryCacheStore.js";
+import { ndjsonStream, sseStream } from "./streams.js";
+import { trackRequestProgress, trackResponseProgress } from "./progress.js";
+import { matchable } from "./match.js";
+import { acquireToken, authorizationValue, createAuthState, refreshToken } from "./auth.js";
+import type { AuthState } from "./auth.js";
+import { createCsrfState, getCsrfToken, isCsrfTrusted, storeCsrfToken } from "./csrf.js";
+import type { CsrfState } from "./csrf.js";
+import { clientSpanKind, errorStatusCode, spanAttributes, traceContextHeaders } from "./tracing.js";
+import { isNativeBody, mediaTypeOf, stockSerializers } from "./serializers.js";
+import { parseJson, stringifyJson } from "./json.js";
 
 /**
  * List of patterns to match against the content-type response header.  If there's a match, the response is treated as 
@@ -20,6 +71,23 @@ const jsonTypes: ProcessorPattern[] = [
     /^application\/(\w+\+?)?json/,
 ];
 
+/**
+ * List of patterns to match against the content-type response header.  If there's a match, the response is treated as 
+ * newline-delimited JSON and its body becomes an async iterable object.
+ */
+const ndjsonTypes: ProcessorPattern[] = [
+    /^application\/(x-)?ndjson/,
+    /^application\/jsonl/,
+];
+
+/**
+ * List of patterns to match against the content-type response header.  If there's a match, the response is treated as 
+ * a stream of Server-Sent Events and its body becomes an async iterable object.
+ */
+const sseTypes: ProcessorPattern[] = [
+    /^text\/event-stream/,
+];
+
 /**
  * List of patterns to match against the content-type response header.  If there's a match, the response is treated as 
  * text.
@@ -28,6 +96,49 @@ const textTypes: ProcessorPattern[] = [
     /^text\/.+/,
 ];
 
+/**
+ * List of patterns to match against the content-type response header.  If there's a match, the response is treated as 
+ * binary data and its body becomes a `Blob` object.
+ */
+const blobTypes: ProcessorPattern[] = [
+    /^application\/octet-stream/,
+    /^application\/pdf/,
+    /^image\//,
+];
+
+/**
+ * List of patterns to match against the content-type response header.  If there's a match, the response is treated as 
+ * form data and its body becomes a `FormData` object.
+ */
+const formDataTypes: ProcessorPattern[] = [
+    /^multipart\/form-data/,
+];
+
+/**
+ * Media types advertised in the automatic `Accept` HTTP header for the stock body processors, along with their quality 
+ * values.  Custom body processors are advertised with a quality value of 1 unless specified otherwise.
+ * 
+ * Only the general-purpose processors are advertised.  Binary data and streams are only sent by endpoints that are 
+ * meant to send them.
+ */
+const stockMediaTypes: [string, number][] = [
+    ['application/json', 0.9],
+    ['text/*', 0.8],
+];
+
+/**
+ * Obtains the media types that can be advertised for the given processor pattern.  Only string patterns that are 
+ * media types (or media ranges) qualify.
+ * @param pattern Processor pattern.
+ * @returns The list of media types found in the pattern.
+ */
+function mediaTypesOf(pattern: ProcessorPattern): string[] {
+    if (Array.isArray(pattern)) {
+        return pattern.flatMap(p => mediaTypesOf(p));
+    }
+    return typeof pattern === 'string' && /^[\w!#$&^.+-]+\/[\w!#$&^.+*-]+$/.test(pattern) ? [pattern] : [];
+}
+
 /**
  * Determines if the given object is a POJO.
  * @param obj Object under test.
@@ -44,8 +155,132 @@ function isPojo(obj: unknown): obj is Record<string, any> {
     return proto === Object.prototype;
 }
 
-function jsonParser(response: Response) {
-    return response.json();
+/**
+ * Determines if the given page of a paginated fetch succeeded with a valid body.
+ * @param page Page under test.
+ * @returns `true` if the page is a successful result, or `false` otherwise.
+ */
+function isOkPage<T>(page: unknown): page is OkFetchResult<T> & { headers: Headers; } {
+    const result = page as { ok?: boolean; invalidBody?: boolean; };
+    return !!result.ok && !result.invalidBody;
+}
+
+/**
+ * State of an HTTP request shared by deduplicated callers.
+ */
+type InFlightRequest = {
+    /**
+     * Promise of the shared response object.
+     */
+    promise: Promise<Response>;
+    /**
+     * Abort controller of the shared HTTP request.
+     */
+    controller: AbortController;
+    /**
+     * Number of callers still waiting for the shared response.
+     */
+    waiters: number;
+};
+
+/**
+ * Information about the HTTP request being fetched, used to emit fetcher events and to record the tracing span.  Its 
+ * timing information is updated as the HTTP request progresses.
+ */
+type RequestTrace = FetchEventBase & {
+    span?: TracingSpan;
+};
+
+/**
+ * Lists of event listeners, by event name.
+ */
+type ListenerMap = { [K in keyof FetcherEvents]: FetcherEventListener<FetcherEvents[K]>[] };
+
+/**
+ * Creates a new listener map, optionally with a copy of the listeners of the given one.
+ * @param source Optional listener map to copy.
+ * @returns The new listener map.
+ */
+function createListeners(source?: ListenerMap): ListenerMap {
+    return {
+        request: [...source?.request ?? []],
+        response: [...source?.response ?? []],
+        bodyParsed: [...source?.bodyParsed ?? []],
+        abort: [...source?.abort ?? []],
+        error: [...source?.error ?? []],
+        autoAbortSuperseded: [...source?.autoAbortSuperseded ?? []],
+    };
+}
+
+/**
+ * Auto-abort controllers that were aborted because a newer HTTP request with the same auto-abort key was made.
+ */
+const supersededControllers = new WeakSet<AbortController>();
+
+/**
+ * Shape of the result objects before they are typed.
+ */
+type RawResult = {
+    aborted: false;
+    ok: boolean;
+    status: number;
+    statusText: string;
+    headers: Headers;
+    url: string;
+    redirected: boolean;
+    body: unknown;
+    fromCache?: true;
+};
+
+/**
+ * Creates a result object out of the given cache entry.
+ * @param entry Cache entry.
+ * @returns The result object.
+ */
+function cachedResult(entry: CacheEntry): RawResult {
+    return {
+        aborted: false,
+        ok: entry.status >= 200 && entry.status < 300,
+        status: entry.status,
+        statusText: entry.statusText,
+        headers: new Headers(entry.headers),
+        url: entry.url ?? '',
+        redirected: entry.redirected ?? false,
+        body: entry.body,
+        fromCache: true,
+    };
+}
+
+/**
+ * Error used internally to carry the original error of a failed HTTP request, along with the kind of failure, up to 
+ * `DrFetch.fetch()`.  It never reaches the consumer:  Safe fetchers turn it into a failed result, and other fetchers 
+ * throw the original error.
+ */
+class FetchFailure extends Error {
+    kind: FetchFailureKind;
+    constructor(kind: FetchFailureKind, error: unknown) {
+        super(`The HTTP request failed (${kind}).`, { cause: error });
+        this.kind = kind;
+    }
+}
+
+/**
+ * Wraps the given error in a `FetchFailure` error, unless it is an abort error (which is handled by abortable 
+ * fetchers) or it is already wrapped.
+ * @param kind The kind of failure.
+ * @param error The error to wrap.
+ * @returns The error to throw.
+ */
+function toFailure(kind: FetchFailureKind, error: unknown) {
+    if (error instanceof FetchFailure ||
+        (error instanceof DOMException && (error.name === 'AbortError' || error.name === 'TimeoutError'))) {
+        return error;
+    }
+    return new FetchFailure(kind, error);
+}
+
+async function jsonParser(response: Response, options?: JsonOptions) {
+    return options ? parseJson(await response.text(), options) : await response.json();
 }
 
 function textParser(response: Response) {
@@ -97,7 +332,8 @@ function textParser(response: Response) {
  * ```
  * 
  * You can also take advantage of the `OkStatusCode` and `NonOkStatusCode` types.  The former is all possible 2xx 
- * status codes; the latter is all other status codes.  There's also `ClientErrorStatusCode` for 4xx status codes, and 
+ * status codes; the latter is all other status codes.  There's also `InformationalStatusCode` for 1xx status codes, 
+ * `RedirectStatusCode` for 3xx status codes, `ClientErrorStatusCode` for 4xx status codes, and 
  * `ServerErrorStatusCode` for 5xx errors.  Yes, `StatusCode` is one that comprehends all status codes.
  * 
  * @example
@@ -120,21 +356,50 @@ export class DrFetch<
     TStatusCode extends number = StatusCode,
     TFetchInit extends FetchFnInit = FetchFnInit,
     T = unknown,
-    Abortable extends boolean = false
+    Abortable extends boolean = false,
+    Safe extends boolean = false
 > {
     #fetchFn: FetchFn<TFetchInit>;
-    #customProcessors: [ProcessorPattern, (response: Response, stockParsers: { json: BodyParserFn<any>; text: BodyParserFn<string>; }) => Promise<any>][] = [];
-    #fetchImpl: (url: FetchFnUrl, init?: TFetchInit) => Promise<any>;
+    #customProcessors: [
+        ProcessorPattern,
+        (response: Response, stockParsers: StockParsers) => Promise<any>,
+        ProcessorOptions | undefined
+    ][] = [];
+    #fetchImpl: (url: FetchFnUrl, init?: TFetchInit, timeoutSignal?: AbortSignal, trace?: RequestTrace) => Promise<any>;
     #autoAbortMap: Map<AutoAbortKey, AbortController> | undefined;
+    #retry: RetryOptions | undefined;
+    #timeout: number | undefined;
+    #validators = new Map<number, StandardSchemaV1>();
+    #middleware: Middleware<TFetchInit>[] = [];
+    #baseUrl: URL | string | undefined;
+    #querySerializer: QuerySerializer = createQuerySerializer();
+    #dedupe: Required<DedupeOptions> | undefined;
+    #inFlight = new Map<string, InFlightRequest>();
+    #cache: { store: CacheStore; shared: boolean; } | undefined;
+    #safe = false;
+    #serializers = new Map<string, BodySerializerFn>();
+    #json: JsonOptions | undefined;
+    #listeners = createListeners();
+    #tracing: { tracer: Tracer; options: TracingOptions; } | undefined;
+    #auth: AuthState | undefined;
+    #csrf: CsrfState | undefined;
 
-    async #abortableFetch(url: FetchFnUrl, init?: TFetchInit) {
+    async #abortableFetch(url: FetchFnUrl, init?: TFetchInit, timeoutSignal?: AbortSignal, trace?: RequestTrace) {
         try {
-            return await this.#simpleFetch(url, init);
+            return await this.#simpleFetch(url, init, trace);
         }
         catch (err: unknown) {
-            if (err instanceof DOMException && err.name === 'AbortError') {
+            if (err instanceof DOMException && (err.name === 'AbortError' || err.name === 'TimeoutError')) {
+                if (timeoutSignal?.aborted) {
+                    return {
+                        aborted: true,
+                        timedOut: true,
+                        error: timeoutSignal.reason
+                    };
+                }
                 return {
                     aborted: true,
+                    timedOut: false,
                     error: err
                 };
             }
@@ -142,17 +407,352 @@ export class DrFetch<
         }
     }
 
-    async #simpleFetch(url: FetchFnUrl, init?: TFetchInit) {
+    async #callFetchFn(url: FetchFnUrl, init?: TFetchInit) {
+        // Upload progress is tracked per attempt.
+        let uploaded: (() => void) | undefined;
+        if (init?.onUploadProgress) {
+            ({ init, complete: uploaded } = trackRequestProgress(init, init.onUploadProgress));
+        }
         const response = await this.#fetchFn(url, init);
-        const body = await this.#readBody(response);
+        uploaded?.();
+        this.#csrf && storeCsrfToken(this.#csrf, response, url instanceof Request ? url.url : url.toString(), this.#baseUrl);
+        return response;
+    }
+
+    #dispatch(url: FetchFnUrl, init?: TFetchInit) {
+        if (!this.#middleware.length) {
+            return this.#callFetchFn(url, init);
+        }
+        const middleware = [...this.#middleware];
+        // Every attempt gets its own headers, so changes made by the middleware don't accumulate across retries.
+        const context: MiddlewareContext<TFetchInit> = {
+            url,
+            init: (init?.headers ? { ...init, headers: mergeHeaders(init.headers) } : { ...init }) as TFetchInit,
+        };
+        const next = (index: number): Promise<Response> => index < middleware.length ?
+            middleware[index](context, () => next(index + 1)) :
+            this.#callFetchFn(context.url, context.init);
+        return next(0);
+    }
+
+    #authorize(url: FetchFnUrl, init: TFetchInit | undefined, token: string | null | undefined) {
+        if (token === null || token === undefined) {
+            return init;
+        }
+        return this.#withHeaders(url, init, [['authorization', authorizationValue(this.#auth!.options.scheme, token)]]);
+    }
+
+    #authApplies(url: FetchFnUrl, init?: TFetchInit) {
+        return !!this.#auth &&
+            init?.auth !== false &&
+            !hasHeader(init?.headers ?? {}, 'authorization') &&
+            !(url instanceof Request && url.headers.has('authorization'));
+    }
+
+    async #authorizedDispatch(url: FetchFnUrl, init?: TFetchInit) {
+        const auth = this.#auth;
+        if (!auth || !this.#authApplies(url, init)) {
+            return await this.#dispatch(url, init);
+        }
+        const { token, generation } = await acquireToken(auth);
+        const response = await this.#dispatch(url, this.#authorize(url, init, token));
+        // Stream bodies and the bodies of request objects cannot be sent twice.
+        if (
+            response.status !== 401 ||
+            !auth.options.refreshToken ||
+            init?.body instanceof ReadableStream ||
+            (url instanceof Request && url.body !== null && init?.body === undefined)
+        ) {
+            return response;
+        }
+        if (!await refreshToken(auth, generation)) {
+            return response;
+        }
+        // The body of the discarded response is not needed.
+        await response.body?.cancel();
+        return await this.#dispatch(url, this.#authorize(url, init, (await acquireToken(auth)).token));
+    }
+
+    async #send(url: FetchFnUrl, init?: TFetchInit, trace?: RequestTrace) {
+        const retry = resolveRetryOptions(this.#retry, init?.retry);
+        if (!retry || !isRetriable(retry, url, init)) {
+            return await this.#authorizedDispatch(url, init);
+        }
+        for (let attempt = 0; ; ++attempt) {
+            let response: Response;
+            try {
+                response = await this.#authorizedDispatch(url, init);
+            }
+            catch (err: unknown) {
+                if (attempt >= retry.limit || !retry.networkErrors || !(err instanceof TypeError) || init?.signal?.aborted) {
+                    throw err;
+                }
+                await wait(computeRetryDelay(attempt, retry)!, init?.signal);
+                trace?.span?.setAttribute(spanAttributes.resendCount, attempt + 1);
+                continue;
+            }
+            if (attempt >= retry.limit || !retry.statusCodes.includes(response.status)) {
+                return response;
+            }
+            const delay = computeRetryDelay(attempt, retry, response.headers.get('retry-after'));
+            if (delay === undefined) {
+                return response;
+            }
+            // The body of the discarded response is not needed.
+            await response.body?.cancel();
+            await wait(delay, init?.signal);
+            trace?.span?.setAttribute(spanAttributes.resendCount, attempt + 1);
+        }
+    }
+
+    #dedupeKey(url: FetchFnUrl, init?: TFetchInit) {
+        if (!this.#dedupe || init?.dedupe === false || (url instanceof Request && !init?.method)) {
+            return undefined;
+        }
+        const method = (init?.method ?? 'GET').toUpperCase();
+        if (!this.#dedupe.methods.some(m => m.toUpperCase() === method)) {
+            return undefined;
+        }
+        const headerValues = this.#dedupe.headers.map(h => {
+            const value = getHeader(init?.headers ?? {}, h);
+            return Array.isArray(value) ? value.join(', ') : value;
+        });
+        return JSON.stringify([method, url instanceof Request ? url.url : url.toString(), headerValues]);
+    }
+
+    #sharedSend(url: FetchFnUrl, init?: TFetchInit, trace?: RequestTrace) {
+        const key = this.#dedupeKey(url, init);
+        if (key === undefined) {
+            return this.#send(url, init, trace);
+        }
+        const signal = init?.signal;
+        if (signal?.aborted) {
+            // Neither start nor join a shared HTTP request that nobody would wait for.
+            return Promise.reject<Response>(signal.reason);
+        }
+        let entry = this.#inFlight.get(key);
+        if (!entry) {
+            const controller = new AbortController();
+            const newEntry: InFlightRequest = {
+                controller,
+                waiters: 0,
+                // The HTTP request that starts the shared HTTP request is the one that records its retries.
+                promise: this.#send(url, { ...init, signal: controller.signal } as TFetchInit, trace)
+                    .finally(() => this.#inFlight.get(key) === newEntry && this.#inFlight.delete(key)),
+            };
+            this.#inFlight.set(key, newEntry);
+            entry = newEntry;
+        }
+        const shared = entry;
+        ++shared.waiters;
+        return new Promise<Response>((rs, rj) => {
+            const leave = () => {
+                if (--shared.waiters === 0) {
+                    // Identical HTTP requests made from now on must not join the aborted one.
+                    if (this.#inFlight.get(key) === shared) {
+                        this.#inFlight.delete(key);
+                    }
+                    shared.controller.abort(signal?.reason);
+                }
+            };
+            const onAbort = () => {
+                leave();
+                rj(signal!.reason);
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            shared.promise.then(
+                (response) => {
+                    if (signal?.aborted) {
+                        return;
+                    }
+                    signal?.removeEventListener('abort', onAbort);
+                    // Bodies can only be read once, so every caller but the last one gets a copy.
+                    rs(--shared.waiters === 0 ? response : response.clone());
+                },
+                (err: unknown) => {
+                    if (signal?.aborted) {
+                        return;
+                    }
+                    signal?.removeEventListener('abort', onAbort);
+                    --shared.waiters;
+                    rj(err);
+                }
+            );
+        });
+    }
+
+    async #toResult(response: Response, init?: TFetchInit, trace?: RequestTrace): Promise<RawResult> {
+        trace && (trace.timing.headersReceived = performance.now());
+        this.#recordStatus(trace, response.status);
+        this.#emit('response', trace, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+            fromCache: false,
+        });
+        const tracked = init?.onDownloadProgress ? trackResponseProgress(response, init.onDownloadProgress) : response;
+        let body: unknown;
+        let processor: string;
+        try {
+            ({ body, processor } = await this.#readBody(tracked, init));
+        }
+        catch (err: unknown) {
+            throw toFailure('parse', err);
+        }
+        trace && (trace.timing.bodyParsed = performance.now());
+        trace?.span?.setAttribute(spanAttributes.bodyProcessor, processor);
+        this.#emit('bodyParsed', trace, { status: response.status, body, processor });
         return {
             aborted: false,
             ok: response.ok,
             status: response.status,
             statusText: response.statusText,
             headers: response.headers,
+            url: response.url,
+            redirected: response.redirected,
             body
-        } as T;
+        };
+    }
+
+    async #request(url: FetchFnUrl, init?: TFetchInit, trace?: RequestTrace) {
+        try {
+            return await this.#sharedSend(url, init, trace);
+        }
+        catch (err: unknown) {
+            throw toFailure('network', err);
+        }
+    }
+
+    #cacheKey(url: FetchFnUrl, init?: TFetchInit) {
+        if (!this.#cache || url instanceof Request || init?.cache === 'no-store') {
+            return undefined;
+        }
+        const method = (init?.method ?? 'GET').toUpperCase();
+        if (method !== 'GET' && method !== 'HEAD') {
+            return undefined;
+        }
+        // Bodies are cached as parsed, so the response type is part of the key.
+        const responseType = init?.responseType;
+        return `${method}${responseType ? `:${responseType}` : ''} ${url.toString()}`;
+    }
+
+    /**
+     * Obtains the HTTP headers the HTTP request is sent with, as far as the cache is concerned:  The ones specified by 
+     * the HTTP request plus the `Authorization` HTTP header added by the authentication subsystem.
+     */
+    async #cacheRequestHeaders(url: FetchFnUrl, init?: TFetchInit) {
+        const headers = new Headers(init?.headers);
+        if (this.#authApplies(url, init)) {
+            const { token } = await acquireToken(this.#auth!);
+            if (token !== null && token !== undefined) {
+                headers.set('authorization', authorizationValue(this.#auth!.options.scheme, token));
+            }
+        }
+        return headers;
+    }
+
+    #fromCache(entry: CacheEntry, trace: RequestTrace | undefined) {
+        const result = cachedResult(entry);
+        trace && (trace.timing.headersReceived = trace.timing.bodyParsed = performance.now());
+        this.#recordStatus(trace, result.status);
+        trace?.span?.setAttribute(spanAttributes.fromCache, true);
+        trace?.span?.setAttribute(spanAttributes.bodyProcessor, 'cache');
+        this.#emit('response', trace, {
+            status: result.status,
+            statusText: result.statusText,
+            headers: result.headers,
+            fromCache: true,
+        });
+        this.#emit('bodyParsed', trace, { status: result.status, body: result.body, processor: 'cache' });
+        return result;
+    }
+
+    async #cachedFetch(url: FetchFnUrl, init?: TFetchInit, trace?: RequestTrace) {
+        const baseKey = this.#cacheKey(url, init);
+        if (baseKey === undefined) {
+            return await this.#toResult(await this.#request(url, init, trace), init, trace);
+        }
+        const requestHeaders = await this.#cacheRequestHeaders(url, init);
+        // Users never share entries.
+        const credentials = await credentialsKey(requestHeaders);
+        if (credentials === undefined) {
+            return await this.#toResult(await this.#request(url, init, trace), init, trace);
+        }
+        const key = credentials ? `${baseKey} ${credentials}` : baseKey;
+        let entry = init?.cache === 'reload' ? undefined : await this.#cache!.store.get(key);
+        if (entry && !matchesVary(entry, requestHeaders)) {
+            entry = undefined;
+        }
+        if (entry && init?.cache !== 'no-cache') {
+            const age = Date.now() - entry.storedAt;
+            if (age < entry.maxAge) {
+                return this.#fromCache(entry, trace);
+            }
+            if (age < entry.maxAge + entry.staleWhileRevalidate) {
+                // Serve the stale entry now, and revalidate it in the background without the caller's signal.
+                this.#revalidate(key, url, { ...init, signal: null } as TFetchInit, entry, requestHeaders).catch(() => { });
+                return this.#fromCache(entry, trace);
+            }
+        }
+        return await this.#revalidate(key, url, init, entry, requestHeaders, trace);
+    }
+
+    async #revalidate(
+        key: string,
+        url: FetchFnUrl,
+        init: TFetchInit | undefined,
+        entry: CacheEntry | undefined,
+        requestHeaders: Headers,
+        trace?: RequestTrace
+    ) {
+        const { store, shared } = this.#cache!;
+        if (entry && (entry.etag || entry.lastModified)) {
+            const headers = new Headers(init?.headers);
+            if (entry.etag && !headers.has('if-none-match')) {
+                headers.set('if-none-match', entry.etag);
+            }
+            if (entry.lastModified && !headers.has('if-modified-since')) {
+                headers.set('if-modified-since', entry.lastModified);
+            }
+            init = { ...init, headers } as TFetchInit;
+        }
+        const response = await this.#request(url, init, trace);
+        if (response.status === 304 && entry) {
+            await response.body?.cancel();
+            const updated: CacheEntry = {
+                ...entry,
+                ...getFreshness(response.headers, shared),
+                storedAt: Date.now(),
+            };
+            await store.set(key, updated);
+            return this.#fromCache(updated, trace);
+        }
+        const result = await this.#toResult(response, init, trace);
+        const newEntry = createCacheEntry(response, result.body, requestHeaders, shared);
+        if (newEntry) {
+            await store.set(key, newEntry);
+        }
+        else if (entry) {
+            await store.delete(key);
+        }
+        return result;
+    }
+
+    async #simpleFetch(url: FetchFnUrl, init?: TFetchInit, trace?: RequestTrace) {
+        const result = await this.#cachedFetch(url, init, trace);
+        const schema = this.#validators.get(result.status);
+        if (schema) {
+            const validation = await schema['~standard'].validate(result.body);
+            if (validation.issues) {
+                return {
+                    ...result,
+                    invalidBody: true,
+                    issues: validation.issues
+                } as T;
+            }
+            return { ...result, body: validation.value } as T;
+        }
+        return result as T;
     }
 
     /**
@@ -191,7 +791,7 @@ export class DrFetch<
      */
     constructor(fetchFn?: FetchFn<TFetchInit>) {
         this.#fetchFn = fetchFn ?? fetch.bind(globalThis.window || global);
-        this.#fetchImpl = this.#simpleFetch.bind(this);
+        this.#fetchImpl = (url, init, _timeoutSignal, trace) => this.#simpleFetch(url, init, trace);
     }
 
     /**
@@ -203,30 +803,68 @@ export class DrFetch<
         return !!this.#autoAbortMap;
     }
 
+    /**
+     * Gets a Boolean value indicating whether this fetcher object is in safe mode or not.
+     * 
+     * **NOTE**:  Once in safe mode, the fetcher object cannot be reverted to non-safe mode.
+     */
+    get isSafe() {
+        return this.#safe;
+    }
+
     /**
      * Clones this fetcher object by creating a new fetcher object with the same data-fetching function, custom 
-     * body processors, and data typing unless specified otherwise via the options parameter.
+     * body processors, middleware, event listeners, base URL, query serializer, retry policy, timeout, deduplication 
+     * options, HTTP cache, tracer, authentication options, CSRF options and data typing unless specified otherwise via the 
+     * options parameter.
      * @param options Optional options to control which features are cloned.
      * @returns A new fetcher object that complies with the supplied (or if not supplied, the default) options.
      */
-    clone<TInherit extends boolean = true, CloneAbortable extends boolean = true>(
-        options?: CloneOptions<TInherit, CloneAbortable>
+    clone<TInherit extends boolean = true, CloneAbortable extends boolean = true, CloneSafe extends boolean = true>(
+        options?: CloneOptions<TInherit, CloneAbortable, CloneSafe>
     ) {
         const opts = {
             fetchFn: undefined,
+            baseUrl: undefined,
             includeProcessors: true,
+            includeMiddleware: true,
+            includeListeners: true,
             preserveTyping: true,
             preserveAbortable: true,
+            preserveSafe: true,
             ...options
         };
         const newClone = new DrFetch(opts.fetchFn === false ? undefined : opts?.fetchFn ?? this.#fetchFn);
         if (opts.includeProcessors) {
             newClone.#customProcessors = [...this.#customProcessors];
         }
+        newClone.#baseUrl = opts.baseUrl === false ? undefined : (opts.baseUrl ?? this.#baseUrl);
+        newClone.#querySerializer = this.#querySerializer;
+        newClone.#serializers = new Map(this.#serializers);
+        newClone.#json = this.#json;
+        newClone.#dedupe = this.#dedupe;
+        newClone.#cache = this.#cache;
+        newClone.#tracing = this.#tracing;
+        newClone.#auth = this.#auth;
+        newClone.#csrf = this.#csrf;
+        if (opts.includeMiddleware) {
+            newClone.#middleware = [...this.#middleware];
+        }
+        if (opts.includeListeners) {
+            newClone.#listeners = createListeners(this.#listeners);
+        }
+        if (opts.preserveTyping) {
+            newClone.#validators = new Map(this.#validators);
+        }
+        newClone.#retry = this.#retry;
         if (opts.preserveAbortable && this.isAbortable) {
             newClone.abortable();
+            newClone.#timeout = this.#timeout;
         }
-        return newClone as DrFetch<TStatusCode, TFetchInit, TInherit extends true ? T : unknown, CloneAbortable>;
+        if (opts.preserveSafe) {
+            newClone.#safe = this.#safe;
+        }
+        return newClone as DrFetch<TStatusCode, TFetchInit, TInherit extends true ? T : unknown, CloneAbortable, CloneSafe extends true ? Safe : false>;
     }
 
     /**
@@ -240,13 +878,341 @@ export class DrFetch<
      * and the content type.
      * @param processorFn Custom processor function that is given the HTTP response object and the stock body processors, 
      * and is responsible to return the body.
+     * @param options Optional processor options, like the media types advertised in the automatic `Accept` HTTP 
+     * header.  If not specified, the string patterns that are media types are advertised.
      * @returns The current fetcher object to enable fluent syntax.
      */
     withProcessor(
         pattern: ProcessorPattern,
-        processorFn: (response: Response, stockParsers: { json: BodyParserFn<any>; text: BodyParserFn<string>; }) => Promise<any>
+        processorFn: (response: Response, stockParsers: StockParsers) => Promise<any>,
+        options?: ProcessorOptions
     ) {
-        this.#customProcessors.push([pattern, processorFn]);
+        this.#customProcessors.push([pattern, processorFn, options]);
+        return this;
+    }
+
+    /**
+     * Builds the value of the automatic `Accept` HTTP header out of the media types of the custom body processors and 
+     * the stock body processors.
+     */
+    #acceptHeader() {
+        const qualities = new Map<string, number>();
+        const add = (mediaType: string, quality: number) => {
+            const key = mediaType.toLowerCase();
+            qualities.set(key, Math.max(quality, qualities.get(key) ?? 0));
+        };
+        for (let [pattern, , options] of this.#customProcessors) {
+            const mediaTypes = options?.mediaTypes ?? mediaTypesOf(pattern);
+            for (let mediaType of Array.isArray(mediaTypes) ? mediaTypes : [mediaTypes]) {
+                add(mediaType, options?.quality ?? 1);
+            }
+        }
+        for (let [mediaType, quality] of stockMediaTypes) {
+            add(mediaType, quality);
+        }
+        return [...qualities]
+            .sort((a, b) => b[1] - a[1])
+            .map(([mediaType, quality]) => quality < 1 ? `${mediaType};q=${+quality.toFixed(3)}` : mediaType)
+            .join(', ');
+    }
+
+    /**
+     * Adds the automatic `Accept` HTTP header to the given options, unless the HTTP request already specifies one.
+     * @param url URL parameter for the data-fetching function.
+     * @param init Options for the data-fetching function.
+     * @returns The options for the data-fetching function, including the `Accept` HTTP header.
+     */
+    #withAcceptHeader(url: FetchFnUrl, init?: TFetchInit) {
+        if (hasHeader(init?.headers ?? {}, 'accept') || (url instanceof Request && !init?.headers && url.headers.has('accept'))) {
+            return init;
+        }
+        return this.#withHeaders(url, init, [['Accept', this.#acceptHeader()]]);
+    }
+
+    /**
+     * Creates a copy of the given `init` object with the given HTTP headers added to (or replacing) its own, so the 
+     * caller's headers are never modified.  If the `init` object has no headers, the ones of the request object given 
+     * as URL (if any) are used, because `fetch()` ignores them once `init.headers` is set.
+     */
+    #withHeaders(url: FetchFnUrl, init: TFetchInit | undefined, headers: HeaderInput) {
+        return {
+            ...init,
+            headers: mergeHeaders(init?.headers ?? (url instanceof Request ? url.headers : undefined), headers),
+        } as TFetchInit;
+    }
+
+    /**
+     * Adds a body serializer to the fetcher object, or replaces the one for the given media type.
+     * 
+     * Body serializers convert the bodies given to the shortcut functions (`post()`, `put()`, etc.) into bodies the 
+     * data-fetching function can send.  The serializer is chosen by the `bodyType` option of the HTTP request, or by 
+     * its `Content-Type` HTTP header.  Bodies that `fetch()` supports natively (strings, blobs, `FormData` objects, 
+     * streams, etc.) are never serialized.
+     * 
+     * There are stock serializers for `application/json`, `application/x-www-form-urlencoded` and 
+     * `multipart/form-data`.
+     * @param contentType The media type of the bodies produced by the serializer.
+     * @param serializerFn Serializer function that receives the body data and returns the body to send.
+     * @returns The current fetcher object to enable fluent syntax.
+     * @example
+     * ```typescript
+     * const fetcher = new DrFetch()
+     *     .withSerializer('application/xml', (data) => toXml(data))
+     *     ;
+     * 
+     * await fetcher.post('/api/orders', order, { bodyType: 'application/xml' });
+     * ```
+     */
+    withSerializer(contentType: string, serializerFn: BodySerializerFn) {
+        this.#serializers.set(mediaTypeOf(contentType), serializerFn);
+        return this;
+    }
+
+    /**
+     * Sets the JSON options of the fetcher object, which apply to both directions:  JSON bodies sent with the shortcut 
+     * functions are stringified with them, and JSON bodies received (including the lines of NDJSON bodies) are parsed 
+     * with them.  Custom body processors get to use them through `stockParsers.json`.
+     * @param options The new JSON options, or `undefined` to go back to the standard behavior.
+     * @returns The current fetcher object to enable fluent syntax.
+     * @example
+     * ```typescript
+     * const fetcher = new DrFetch()
+     *     .withJson({ dates: true, bigInts: true })
+     *     ;
+     * ```
+     */
+    withJson(options: JsonOptions | undefined) {
+        this.#json = options;
+        return this;
+    }
+
+    /**
+     * Sets the base URL of the fetcher object.
+     * 
+     * Relative URLs given to `fetch()` or the shortcut functions are appended to the base URL.  Unlike what happens 
+     * with `new URL(url, base)`, the path of the base URL is always preserved, so `'/users'` with base URL 
+     * `'https://example.com/api'` becomes `'https://example.com/api/users'`.  Absolute URLs and `URL` objects are not 
+     * affected.
+     * @param baseUrl The new base URL, or `undefined` to remove it.
+     * @returns The current fetcher object to enable fluent syntax.
+     */
+    withBaseUrl(baseUrl: URL | string | undefined) {
+        this.#baseUrl = baseUrl;
+        return this;
+    }
+
+    /**
+     * Sets the serializer used to convert the `query` option of HTTP requests into query strings.
+     * 
+     * Provide the options of the stock serializer, or a custom serializer function.
+     * @param serializer Stock serializer options or custom serializer function.
+     * @returns The current fetcher object to enable fluent syntax.
+     * @example
+     * ```typescript
+     * const fetcher = new DrFetch()
+     *     .withQuerySerializer({ arrayFormat: 'brackets' });
+     * 
+     * // Fetches /api/todos?ids[]=1&ids[]=2&filter[done]=false:
+     * await fetcher.get('/api/todos', { query: { ids: [1, 2], filter: { done: false } } });
+     * ```
+     */
+    withQuerySerializer(serializer: QuerySerializer | QuerySerializerOptions) {
+        this.#querySerializer = typeof serializer === 'function' ? serializer : createQuerySerializer(serializer);
+        return this;
+    }
+
+    /**
+     * Adds a middleware function to the fetcher object.
+     * 
+     * Middleware functions are an alternative to custom data-fetching functions that can be composed:  Each one can 
+     * examine and modify the URL and the options of the HTTP request before calling `next()`, and can examine or 
+     * replace the response object returned by `next()`.  They run in the order they were added, so the first one added 
+     * is the outermost one.  The data-fetching function is called at the end of the chain.
+     * 
+     * Middleware functions run once per attempt, so they also run for every retry.
+     * @param middleware The middleware function to add.
+     * @returns The current fetcher object to enable fluent syntax.
+     * @example
+     * ```typescript
+     * const fetcher = new DrFetch()
+     *     .use(async (ctx, next) => {
+     *         setHeaders(ctx.init, { Authorization: `Bearer ${getToken()}` });
+     *         return next();
+     *     })
+     *     .use(async (ctx, next) => {
+     *         const start = performance.now();
+     *         const response = await next();
+     *         console.log('%s took %d ms.', ctx.url, performance.now() - start);
+     *         return response;
+     *     });
+     * ```
+     */
+    use(middleware: Middleware<TFetchInit>) {
+        this.#middleware.push(middleware);
+        return this;
+    }
+
+    /**
+     * Configures the fetcher object to retry failed HTTP requests.
+     * 
+     * HTTP requests are retried whenever the response's status code is one of the configured status codes, or whenever 
+     * the data-fetching function throws a network error (`TypeError`).  Only idempotent HTTP methods are retried by 
+     * default.  The waiting time between attempts grows exponentially, is randomized (jitter) and honors the 
+     * `Retry-After` HTTP response header.  Retrying stops as soon as the HTTP request's signal is aborted.
+     * 
+     * Individual HTTP requests can modify or disable this configuration by means of the `retry` option.
+     * @param options Optional retry options.  Any option not specified takes its default value.
+     * @returns The current fetcher object to enable fluent syntax.
+     */
+    withRetry(options?: RetryOptions) {
+        this.#retry = { ...options };
+        return this;
+    }
+
+    /**
+     * Configures the fetcher object to deduplicate identical in-flight HTTP requests.
+     * 
+     * While an HTTP request is in flight, any identical HTTP request (same method, same URL and same values for the 
+     * selected request headers) made with this fetcher object shares it instead of calling the data-fetching function 
+     * again.  Every caller still gets its own result object.
+     * 
+     * Aborting one caller's HTTP request only makes that caller stop waiting.  The shared HTTP request is aborted once 
+     * every caller has aborted.
+     * 
+     * Individual HTTP requests can opt out by means of the `dedupe` option.
+     * @param options Optional deduplication options.  Any option not specified takes its default value.
+     * @returns The current fetcher object to enable fluent syntax.
+     */
+    withDedupe(options?: DedupeOptions) {
+        this.#dedupe = {
+            methods: options?.methods ?? ['GET', 'HEAD'],
+            headers: options?.headers ?? ['accept', 'authorization'],
+        };
+        return this;
+    }
+
+    /**
+     * Configures the fetcher object to authenticate its HTTP requests with an access token.
+     * 
+     * The token obtained from `getToken()` is sent in the `Authorization` HTTP header of every HTTP request that does 
+     * not specify this header already.  When an HTTP request is answered with status code 401, the token is refreshed 
+     * with `refreshToken()` and the HTTP request is sent once more with the new token.
+     * 
+     * Only one refresh takes place at a time:  HTTP requests that get status code 401 while the token is being 
+     * refreshed wait for the refresh to complete, and so do the new HTTP requests.  They are all sent with the new 
+     * token afterwards.  If the refresh fails, the 401 response is returned.
+     * 
+     * Clones of this fetcher object share the token refreshes.  Individual HTTP requests can opt out by means of the 
+     * `auth` option.
+     * @param options The authentication options.
+     * @returns The current fetcher object to enable fluent syntax.
+     * @example
+     * ```typescript
+     * const fetcher = new DrFetch().withAuth({
+     *     getToken: () => tokenStore.accessToken,
+     *     refreshToken: () => tokenStore.refresh(),
+     * });
+     * ```
+     */
+    withAuth(options: AuthOptions) {
+        this.#auth = createAuthState(options);
+        return this;
+    }
+
+    /**
+     * Configures the fetcher object to protect its HTTP requests against cross-site request forgery (CSRF) by sending 
+     * a CSRF token in an HTTP header, as the double-submit cookie pattern requires.
+     * 
+     * The token is read from a cookie (`XSRF-TOKEN` by default), a `<meta>` tag or a function, and is only sent with 
+     * the unsafe HTTP methods (`POST`, `PUT`, `PATCH` and `DELETE` by default).  If the `responseHeader` option is 
+     * specified, new tokens are taken from the responses that carry this HTTP header.
+     * 
+     * The token is only sent to relative URLs and to the origins of the current page, the fetcher's base URL and the 
+     * `allowedOrigins` option, and new tokens are only taken from responses of these origins.
+     * @param options Optional CSRF options.  Any option not specified takes its default value.
+     * @returns The current fetcher object to enable fluent syntax.
+     * @example
+     * ```typescript
+     * const fetcher = new DrFetch().withCsrf({
+     *     source: { meta: 'csrf-token' },
+     *     header: 'X-CSRF-Token',
+     * });
+     * ```
+     */
+    withCsrf(options?: CsrfOptions) {
+        this.#csrf = createCsrfState(options);
+        return this;
+    }
+
+    /**
+     * Configures the fetcher object to trace its HTTP requests with the given tracer.
+     * 
+     * A client span is started per call to `fetch()` (or the shortcut functions), and the trace is propagated with 
+     * the W3C `traceparent` and `tracestate` HTTP headers.  In browsers, the trace is only propagated to the origin of 
+     * the current page unless the `propagate` option says otherwise.  The span records the HTTP method, the URL, the status code, 
+     * the number of retries, the name of the body processor, aborts, timeouts and errors.
+     * 
+     * The tracer only needs a minimal OpenTelemetry-like interface, so any OpenTelemetry tracer works and the 
+     * library gains no dependencies.
+     * @param tracer The tracer used to start the spans.
+     * @param options Optional tracing options.
+     * @returns The current fetcher object to enable fluent syntax.
+     * @example
+     * ```typescript
+     * import { trace } from '@opentelemetry/api';
+     * 
+     * const fetcher = new DrFetch().withTracing(trace.getTracer('my-app'));
+     * ```
+     */
+    withTracing(tracer: Tracer, options?: TracingOptions) {
+        this.#tracing = { tracer, options: { ...options } };
+        return this;
+    }
+
+    /**
+     * Configures the fetcher object to cache the results of `GET` and `HEAD` HTTP requests.
+     * 
+     * The cache honors the `Cache-Control` (`max-age`, `no-cache`, `no-store` and `stale-while-revalidate`) and 
+     * `Expires` HTTP response headers.  Once an entry is stale, the HTTP request is made with the `If-None-Match` and 
+     * `If-Modified-Since` HTTP headers, and a `304 Not Modified` response is turned into the cached result.  Results 
+     * served from the cache carry `fromCache: true`.
+     * 
+     * The cache stores parsed bodies, which are shared among the results served from it.  Treat them as immutable.
+     * 
+     * Entries are only served to HTTP requests with the same values for the HTTP headers named by the `Vary` HTTP 
+     * header of the stored response, and are never shared among HTTP requests with different `Authorization` or 
+     * `Cookie` HTTP headers (including the token sent by `withAuth()`).
+     * 
+     * Individual HTTP requests can control the cache with the standard `cache` option:  `'no-store'` bypasses the cache, 
+     * `'reload'` skips the cached entry but stores the new response, and `'no-cache'` always revalidates.
+     * @param options Optional cache options.
+     * @returns The current fetcher object to enable fluent syntax.
+     */
+    withCache(options?: CacheOptions) {
+        this.#cache = {
+            store: options?.store ?? new MemoryCacheStore(),
+            shared: options?.shared ?? false,
+        };
+        return this;
+    }
+
+    /**
+     * Sets the amount of time HTTP requests are allowed to take before they are aborted.
+     * 
+     * HTTP requests that time out resolve to a result object whose `aborted` and `timedOut` properties are both `true`, 
+     * so timeouts can be told apart from other abortions.  Because of this, the fetcher object must be in abortable 
+     * mode.
+     * 
+     * Individual HTTP requests can override this value by means of the `timeout` option.
+     * @param timeout The maximum amount of time (in milliseconds) an HTTP request can take, or `undefined` to remove 
+     * the timeout.
+     * @returns The current fetcher object to enable fluent syntax.
+     */
+    withTimeout(timeout: number | undefined) {
+        if (!this.#autoAbortMap) {
+            throw new Error('Cannot use timeouts if the fetcher is not in abortable mode.  Call "abortable()" first.');
+        }
+        this.#timeout = timeout;
         return this;
     }
 
@@ -255,8 +1221,67 @@ export class DrFetch<
      * be a single status code, or multiple status codes.
      * @returns This fetcher object with its response type modified to include the body specification provided.
      */
-    for<TStatus extends TStatusCode, TBody = {}>() {
-        return this as DrFetch<TStatusCode, TFetchInit, FetchResult<T, TStatus, TBody>, Abortable>;
+    for<TStatus extends TStatusCode, TBody = {}>(): DrFetch<TStatusCode, TFetchInit, FetchResult<T, TStatus, TBody>, Abortable, Safe>;
+    /**
+     * Associates the given Standard Schema validator to the given status code or status codes, and types the body of 
+     * those status codes with the schema's output type.
+     * 
+     * After parsing, the body of any response with a matching status code is validated.  If validation fails, the 
+     * result object carries `invalidBody: true`, the list of `issues` found and the unvalidated body.  No errors are 
+     * thrown.
+     * 
+     * Like the type-only form of this method, this form alters this fetcher object, so the validator applies to every 
+     * HTTP request made with it from now on.
+     * @param status The status code or status codes whose body is to be validated.
+     * @param schema The Standard Schema validator (zod, valibot, arktype, etc.) used to validate the body.
+     * @returns This fetcher object with its response type modified to include the body specification provided.
+     * @example
+     * ```typescript
+     * const response = await fetcher
+     *     .for(200, z.array(todoSchema))
+     *     .get('/api/todos');
+     * if (response.status === 200 && !response.invalidBody) {
+     *     // response.body is typed and validated.
+     * }
+     * ```
+     */
+    for<TStatus extends TStatusCode, TSchema extends StandardSchemaV1>(
+        status: TStatus | TStatus[],
+        schema: TSchema
+    ): DrFetch<TStatusCode, TFetchInit, FetchResult<T, TStatus, InferSchemaOutput<TSchema>> | InvalidBodyFetchResult<TStatus>, Abortable, Safe>;
+    for(status?: number | number[], schema?: StandardSchemaV1): DrFetch<TStatusCode, TFetchInit, any, Abortable, Safe> {
+        if (status !== undefined && schema) {
+            for (let s of Array.isArray(status) ? status : [status]) {
+                this.#validators.set(s, schema);
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Alters this fetcher's response type by associating the given body type to all the status codes (of the 
+     * fetcher's status code type) that have not been associated to a body type yet.
+     * 
+     * This makes the response type exhaustive:  Checking the status codes declared with `for()` no longer leaves the 
+     * false impression that no other status code can come back.  Call it after all calls to `for()`.
+     * @returns This fetcher object with its response type modified to include the body specification provided.
+     * @example
+     * ```typescript
+     * const response = await fetcher
+     *     .for<200, ToDo[]>()
+     *     .for<401, undefined>()
+     *     .forOthers<ProblemDetails>()
+     *     .get('/api/todos');
+     * if (response.status === 200) {
+     *     // response.body is ToDo[].
+     * }
+     * else if (response.status !== 401) {
+     *     // response.body is ProblemDetails, and response.status is any other status code.
+     * }
+     * ```
+     */
+    forOthers<TBody = {}>(): DrFetch<TStatusCode, TFetchInit, OthersFetchResult<T, TStatusCode, TBody>, Abortable, Safe> {
+        return this as unknown as DrFetch<TStatusCode, TFetchInit, OthersFetchResult<T, TStatusCode, TBody>, Abortable, Safe>;
     }
 
     #contentMatchesType(contentType: string, response: Response, ...types: ProcessorPattern[]) {
@@ -284,38 +1309,106 @@ export class DrFetch<
         return false;
     }
 
-    async #readBody(response: Response) {
+    /**
+     * Creates the stock body parsers for the given abort signal.
+     * @param signal The abort signal that ends the streams created by the stream parsers.
+     * @returns The stock body parsers.
+     */
+    #stockParsers(signal: AbortSignal | null | undefined): StockParsers {
+        return {
+            json: r => jsonParser(r, this.#json),
+            text: textParser,
+            ndjson: r => Promise.resolve(ndjsonStream(r, signal, this.#json)),
+            sse: r => Promise.resolve(sseStream(r, signal)),
+            blob: r => r.blob(),
+            arrayBuffer: r => r.arrayBuffer(),
+            formData: r => r.formData(),
+        };
+    }
+
+    async #readBody(response: Response, init?: TFetchInit): Promise<{ processor: string; body: unknown; }> {
+        const signal = init?.signal;
+        const responseType = init?.responseType;
+        if (responseType === 'raw') {
+            return { processor: 'raw', body: response };
+        }
         if (!response.body) {
-            return null;
+            return { processor: 'none', body: null };
+        }
+        if (responseType === 'stream') {
+            return { processor: 'stream', body: response.body };
+        }
+        else if (responseType) {
+            return { processor: responseType, body: await this.#stockParsers(signal)[responseType](response) };
         }
         const contentType = response.headers.get('content-type');
         if (!contentType) {
-            throw new Error('The response carries no content type header.  Cannot determine how to parse.');
+            throw new FetchFailure(
+                'no-content-type',
+                new Error('The response carries no content type header.  Cannot determine how to parse.')
+            );
         }
         // Custom processors have the highest priority.
         if (this.#customProcessors.length) {
-            for (let [pattern, processorFn] of this.#customProcessors) {
+            for (let [pattern, processorFn, options] of this.#customProcessors) {
                 if (this.#contentMatchesType(contentType, response, pattern)) {
-                    return await processorFn(response, {
-                        json: jsonParser,
-                        text: textParser,
-                    });
+                    return {
+                        processor: options?.name ?? 'custom',
+                        body: await processorFn(response, this.#stockParsers(signal)),
+                    };
                 }
             }
         }
-        if (this.#contentMatchesType(contentType, response, ...jsonTypes)) {
-            return await jsonParser(response);
+        // Streaming types are checked first because they would otherwise match the JSON or text patterns.
+        if (this.#contentMatchesType(contentType, response, ...ndjsonTypes)) {
+            return { processor: 'ndjson', body: ndjsonStream(response, signal, this.#json) };
+        }
+        else if (this.#contentMatchesType(contentType, response, ...sseTypes)) {
+            return { processor: 'sse', body: sseStream(response, signal) };
+        }
+        else if (this.#contentMatchesType(contentType, response, ...jsonTypes)) {
+            return { processor: 'json', body: await jsonParser(response, this.#json) };
         }
         else if (this.#contentMatchesType(contentType, response, ...textTypes)) {
-            return await textParser(response);
+            return { processor: 'text', body: await textParser(response) };
+        }
+        else if (this.#contentMatchesType(contentType, response, ...blobTypes)) {
+            return { processor: 'blob', body: await response.blob() };
         }
-        throw new Error(`Could not determine how to process body of type "${contentType}".  Provide a custom processor by calling 'withProcessor()'.`);
+        else if (this.#contentMatchesType(contentType, response, ...formDataTypes)) {
+            return { processor: 'formData', body: await response.formData() };
+        }
+        throw new FetchFailure(
+            'no-processor',
+            new Error(`Could not determine how to process body of type "${contentType}".  Provide a custom processor by calling 'withProcessor()'.`)
+        );
     }
 
     abortable() {
         this.#fetchImpl = this.#abortableFetch.bind(this);
         this.#autoAbortMap ??= new Map<AutoAbortKey, AbortController>();
-        return this as DrFetch<TStatusCode, TFetchInit, T, true>;
+        return this as DrFetch<TStatusCode, TFetchInit, T, true, Safe>;
+    }
+
+    /**
+     * Sets this fetcher object in safe mode.
+     * 
+     * Safe fetchers don't throw when the HTTP request fails or its body cannot be processed.  Instead, the promise 
+     * resolves to a result object with `failed: true`, the `kind` of failure and the original `error`:
+     * 
+     * + `'network'`:  The data-fetching function threw (or rejected), usually because of a network error. 
+     * + `'parse'`:  The body processor threw, like when a JSON body is malformed.
+     * + `'no-processor'`:  No body processor matches the response's content type.
+     * + `'no-content-type'`:  The response has a body, but no `Content-Type` header.
+     * 
+     * Aborted HTTP requests are not failures.  Combine with `abortable()` to also get results for those.
+     * 
+     * **NOTE**:  Once in safe mode, the fetcher object cannot be reverted to non-safe mode.
+     * @returns This fetcher object in safe mode.
+     */
+    safe() {
+        this.#safe = true;
+        return this as DrFetch<TStatusCode, TFetchInit, T, Abortable, true>;
     }
 
     /**
@@ -323,86 +1416,506 @@ export class DrFetch<
      * object.
      * @param url URL parameter for the data-fetching function.
      * @param init Options for the data-fetching function.
-     * @returns A response object with the HTTP response's `ok`, `status`, `statusText` and `body` properties.
+     * @returns A response object with the HTTP response's `ok`, `status`, `statusText` and `body` properties.  The 
+     * returned promise also has the `match()` method, which calls the handler that corresponds to the result.
+     * @example
+     * ```typescript
+     * const message = await fetcher
+     *     .for<200, ToDo>()
+     *     .for<404, undefined>()
+     *     .fetch('/api/todos/1')
+     *     .match({
+     *         200: (body) => `To-do:  ${body.title}`,
+     *         404: () => 'Not found.',
+     *     });
+     * ```
      */
-    async fetch(url: FetchFnUrl, init?: TFetchInit): Promise<(Abortable extends true ? AbortedFetchResult | T : T)> {
+    fetch(url: FetchFnUrl, init?: TFetchInit) {
+        return matchable(this.#fetch(url, init));
+    }
+
+    async #fetch(url: FetchFnUrl, init?: TFetchInit): Promise<FetcherResult<T, Abortable, Safe>> {
+        const start = performance.now();
         if (!this.#autoAbortMap && init?.autoAbort) {
             throw new Error('Cannot use autoAbort if the fetcher is not in abortable mode.  Call "abortable()" first.');
         }
+        if (!this.#autoAbortMap && init?.timeout !== undefined && init.timeout !== false) {
+            throw new Error('Cannot use timeouts if the fetcher is not in abortable mode.  Call "abortable()" first.');
+        }
+        init = this.#withAcceptHeader(url, init);
         const autoAbort = {
             key: typeof init?.autoAbort === 'object' ? init.autoAbort.key : init?.autoAbort,
             delay: typeof init?.autoAbort === 'object' ? init.autoAbort.delay : undefined,
         };
+        const resolvedUrl = this.#resolveUrl(url, init);
+        const trace: RequestTrace = {
+            url: resolvedUrl instanceof Request ? resolvedUrl.url : resolvedUrl.toString(),
+            method: (init?.method ?? (resolvedUrl instanceof Request ? resolvedUrl.method : 'GET')).toUpperCase(),
+            timing: { start },
+        };
+        const signals: AbortSignal[] = init?.signal ? [init.signal] : [];
+        let autoAbortController: AbortController | undefined;
         if (autoAbort.key) {
-            this.#autoAbortMap?.get(autoAbort.key)?.abort();
-            const ac = new AbortController();
+            trace.autoAbortKey = autoAbort.key;
+            const previous = this.#autoAbortMap?.get(autoAbort.key);
+            if (previous) {
+                supersededControllers.add(previous);
+                previous.abort();
+            }
+            const ac = autoAbortController = new AbortController();
             this.#autoAbortMap!.set(autoAbort.key, ac);
-            init ??= {} as TFetchInit;
-            init.signal = ac.signal;
+            signals.push(ac.signal);
             if (autoAbort.delay !== undefined) {
                 const aborted = await new Promise<boolean>((rs) => {
                     setTimeout(() => rs(ac.signal.aborted), autoAbort.delay);
                 });
                 if (aborted) {
+                    const error = new DOMException('Aborted while delayed.', 'AbortError');
+                    this.#emitAbort(trace, false, error, ac);
                     // @ts-expect-error TS2322: A runtime check is in place to ensure that the type is correct.
                     return {
                         aborted: true,
-                        error: new DOMException('Aborted while delayed.', 'AbortError')
+                        timedOut: false,
+                        error
                     };
                 }
             }
         }
-        return await this.#fetchImpl(url, init)
-            .finally(() => autoAbort.key && this.#autoAbortMap?.delete(autoAbort.key));
+        const timeout = init?.timeout === false ? undefined : (init?.timeout ?? this.#timeout);
+        let timeoutController: AbortController | undefined;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        if (timeout !== undefined) {
+            timeoutController = new AbortController();
+            timer = setTimeout(
+                () => timeoutController!.abort(new DOMException(`The HTTP request timed out after ${timeout} ms.`, 'TimeoutError')),
+                timeout
+            );
+            signals.push(timeoutController.signal);
+        }
+        if (signals.length) {
+            init = {
+                ...init,
+                signal: signals.length === 1 ? signals[0] : AbortSignal.any(signals)
+            } as TFetchInit;
+        }
+        if (this.#csrf) {
+            init = await this.#withCsrfToken(this.#csrf, url, init, trace);
+        }
+        trace.span = this.#startSpan(trace);
+        if (trace.span && this.#propagates(trace.url)) {
+            const headers = traceContextHeaders(trace.span);
+            init = this.#withHeaders(url, init, headers);
+            if (!headers.some(([name]) => name === 'tracestate')) {
+                // A trace state that is not the span's would be misleading.
+                (init!.headers as Headers).delete('tracestate');
+            }
+        }
+        this.#emit('request', trace, { init: init ?? {} });
+        try {
+            const result = await this.#fetchImpl(resolvedUrl, init, timeoutController?.signal, trace);
+            if (result.aborted) {
+                this.#emitAbort(trace, result.timedOut, result.error, autoAbortController);
+            }
+            return result;
+        }
+        catch (err: unknown) {
+            if (err instanceof DOMException && (err.name === 'AbortError' || err.name === 'TimeoutError')) {
+                this.#emitAbort(trace, err.name === 'TimeoutError', err, autoAbortController);
+            }
+            else {
+                const kind = err instanceof FetchFailure ? err.kind : undefined;
+                const error = err instanceof FetchFailure ? err.cause : err;
+                trace.span?.recordException(error);
+                trace.span?.setAttribute(spanAttributes.errorType, kind ?? 'error');
+                trace.span?.setStatus({ code: errorStatusCode, message: error instanceof Error ? error.message : undefined });
+                this.#emit('error', trace, { kind, error });
+            }
+            if (!(err instanceof FetchFailure)) {
+                throw err;
+            }
+            if (!this.#safe) {
+                throw err.cause;
+            }
+            // @ts-expect-error TS2322: A runtime check is in place to ensure that the type is correct.
+            return {
+                aborted: false,
+                failed: true,
+                kind: err.kind,
+                error: err.cause
+            };
+        }
+        finally {
+            clearTimeout(timer);
+            autoAbort.key && this.#autoAbortMap?.delete(autoAbort.key);
+            trace.span?.end();
+        }
+    }
+
+    /**
+     * Calls the listeners of the given event.  Errors thrown by listeners are ignored, so they never affect the HTTP 
+     * request.
+     * @param name The event's name.
+     * @param trace The information of the HTTP request, or `undefined` if the HTTP request is not traced (like the 
+     * HTTP requests that revalidate cache entries in the background).
+     * @param data The event-specific data.
+     */
+    #emit<K extends keyof FetcherEvents>(name: K, trace: RequestTrace | undefined, data: Omit<FetcherEvents[K], keyof FetchEventBase>) {
+        const listeners = this.#listeners[name];
+        if (!trace || !listeners.length) {
+            return;
+        }
+        const { span: _span, ...info } = trace;
+        const event = { ...info, timing: { ...info.timing }, ...data } as FetcherEvents[K];
+        for (let listener of listeners) {
+            try {
+                listener(event);
+            }
+            catch {
+                // Listeners cannot break HTTP requests.
+            }
+        }
+    }
+
+    #emitAbort(trace: RequestTrace, timedOut: boolean, error: unknown, autoAbortController: AbortController | undefined) {
+        trace.span?.setAttribute(spanAttributes.aborted, true);
+        trace.span?.setAttribute(spanAttributes.timedOut, timedOut);
+        if (timedOut) {
+            trace.span?.setAttribute(spanAttributes.errorType, 'timeout');
+            trace.span?.setStatus({ code: errorStatusCode, message: 'The HTTP request timed out.' });
+        }
+        if (autoAbortController && supersededControllers.has(autoAbortController)) {
+            this.#emit('autoAbortSuperseded', trace, {});
+        }
+        this.#emit('abort', trace, { timedOut, error });
+    }
+
+    #startSpan(trace: RequestTrace) {
+        return this.#tracing?.tracer.startSpan(trace.method, {
+            kind: clientSpanKind,
+            attributes: {
+                [spanAttributes.method]: trace.method,
+                [spanAttributes.url]: trace.url,
+            },
+        });
+    }
+
+    async #withCsrfToken(csrf: CsrfState, url: FetchFnUrl, init: TFetchInit | undefined, trace: RequestTrace) {
+        if (
+            !csrf.options.methods.includes(trace.method) ||
+            hasHeader(init?.headers ?? {}, csrf.options.header) ||
+            (url instanceof Request && !init?.headers && url.headers.has(csrf.options.header)) ||
+            !isCsrfTrusted(csrf, trace.url, this.#baseUrl)
+        ) {
+            return init;
+        }
+        const token = await getCsrfToken(csrf);
+        if (token === undefined) {
+            return init;
+        }
+        return this.#withHeaders(url, init, [[csrf.options.header, token]]);
+    }
+
+    #propagates(url: string) {
+        const propagate = this.#tracing?.options.propagate;
+        if (typeof propagate === 'function') {
+            return propagate(url);
+        }
+        if (typeof propagate === 'boolean') {
+            return propagate;
+        }
+        // The trace context headers make browsers send CORS preflight requests to other origins, which their servers 
+        // may not allow.  Outside browsers, there is no current page and no CORS.
+        const origin = originOf(url);
+        if (origin === undefined || typeof location === 'undefined' || origin === location.origin) {
+            return true;
+        }
+        return !!propagate?.some(o => originOf(o) === origin);
+    }
+
+    #recordStatus(trace: RequestTrace | undefined, status: number) {
+        trace?.span?.setAttribute(spanAttributes.statusCode, status);
+        if (status >= 400) {
+            // Client spans report 4xx and 5xx status codes as errors.
+            trace?.span?.setAttribute(spanAttributes.errorType, String(status));
+            trace?.span?.setStatus({ code: errorStatusCode });
+        }
+    }
+
+    #on<K extends keyof FetcherEvents>(name: K, listener: FetcherEventListener<FetcherEvents[K]>) {
+        this.#listeners[name].push(listener);
+        return this;
+    }
+
+    /**
+     * Adds a listener that is called when an HTTP request is about to be sent.
+     * 
+     * Event listeners are meant for logging, metrics and developer tools.  They are called synchronously, and errors 
+     * thrown by them are ignored.  Every event carries the URL, the HTTP method, the auto-abort key (if any) and the 
+     * timing information gathered so far.
+     * @param listener The event listener.
+     * @returns The current fetcher object to enable fluent syntax.
+     */
+    onRequest(listener: FetcherEventListener<FetchRequestEvent>) {
+        return this.#on('request', listener);
+    }
+
+    /**
+     * Adds a listener that is called when the HTTP headers of a response are received, or when a result is taken out 
+     * of the HTTP cache.
+     * @param listener The event listener.
+     * @returns The current fetcher object to enable fluent syntax.
+     */
+    onResponse(listener: FetcherEventListener<FetchResponseEvent>) {
+        return this.#on('response', listener);
+    }
+
+    /**
+     * Adds a listener that is called when the body of a response has been parsed.
+     * @param listener The event listener.
+     * @returns The current fetcher object to enable fluent syntax.
+     */
+    onBodyParsed(listener: FetcherEventListener<FetchBodyParsedEvent>) {
+        return this.#on('bodyParsed', listener);
+    }
+
+    /**
+     * Adds a listener that is called when an HTTP request is aborted or times out.
+     * @param listener The event listener.
+     * @returns The current fetcher object to enable fluent syntax.
+     */
+    onAbort(listener: FetcherEventListener<FetchAbortEvent>) {
+        return this.#on('abort', listener);
+    }
+
+    /**
+     * Adds a listener that is called when an HTTP request fails or its body cannot be processed.  It is called in safe 
+     * mode too.
+     * @param listener The event listener.
+     * @returns The current fetcher object to enable fluent syntax.
+     */
+    onError(listener: FetcherEventListener<FetchErrorEvent>) {
+        return this.#on('error', listener);
+    }
+
+    /**
+     * Adds a listener that is called when an HTTP request is aborted because a newer HTTP request with the same 
+     * auto-abort key was made.  The abort event of the HTTP request follows.
+     * @param listener The event listener.
+     * @returns The current fetcher object to enable fluent syntax.
+     */
+    onAutoAbortSuperseded(listener: FetcherEventListener<FetchAutoAbortSupersededEvent>) {
+        return this.#on('autoAbortSuperseded', listener);
+    }
+
+    /**
+     * Removes an event listener added with any of the `onXXX()` methods.
+     * @param name The name of the event.
+     * @param listener The event listener to remove.
+     * @returns The current fetcher object to enable fluent syntax.
+     */
+    off<K extends keyof FetcherEvents>(name: K, listener: FetcherEventListener<FetcherEvents[K]>) {
+        const listeners = this.#listeners[name];
+        const index = listeners.indexOf(listener);
+        if (index !== -1) {
+            listeners.splice(index, 1);
+        }
+        return this;
+    }
+
+    /**
+     * Iterates the pages of a paginated resource by following the `Link` HTTP header with `rel="next"` of every page, 
+     * or the URLs given by the `getNext` option.
+     * 
+     * Every page is a regular result object.  The iteration stops after the first page that is not successful (non-OK 
+     * status code, invalid body, aborted or failed), which is yielded so the reason can be examined.  It also stops 
+     * when there is no next page, when the `maxPages` limit is reached, or when the HTTP request's signal is aborted.
+     * @param url URL of the first page.  It can be a URL template with `:name` parameter placeholders.
+     * @param options Optional pagination options.
+     * @returns An async iterable object that yields the pages.
+     * @example
+     * ```typescript
+     * for await (let page of fetcher.for<200, Todo[]>().for<404, undefined>().paginate('/api/todos')) {
+     *     if (!page.ok) {
+     *         break;
+     *     }
+     *     render(page.body);
+     * }
+     * ```
+     */
+    paginate(
+        url: FetchFnUrl,
+        options?: PaginationOptions<OkFetchResult<T>, TFetchInit> & { getItems?: undefined; }
+    ): AsyncIterable<FetcherResult<T, Abortable, Safe>>;
+    /**
+     * Iterates the items of the pages of a paginated resource by following the `Link` HTTP header with `rel="next"` of 
+     * every page, or the URLs given by the `getNext` option.
+     * 
+     * The items of every page are obtained with the `getItems` option.  The iteration stops at the first page that is 
+     * not successful (non-OK status code, invalid body, aborted or failed), without yielding anything for it.  Iterate 
+     * pages instead if the reason is important.
+     * @param url URL of the first page.  It can be a URL template with `:name` parameter placeholders.
+     * @param options Pagination options, including the `getItems` function.
+     * @returns An async iterable object that yields the items.
+     * @example
+     * ```typescript
+     * const todos = fetcher.for<200, { items: Todo[]; cursor?: string; }>().paginate('/api/todos', {
+     *     getItems: (page) => page.body.items,
+     *     getNext: (page) => page.body.cursor && `/api/todos?cursor=${page.body.cursor}`,
+     * });
+     * for await (let todo of todos) {
+     *     ...
+     * }
+     * ```
+     */
+    paginate<TItem>(
+        url: FetchFnUrl,
+        options: PaginationOptions<OkFetchResult<T>, TFetchInit, TItem> & { getItems: (page: OkFetchResult<T>) => Iterable<TItem>; }
+    ): AsyncIterable<TItem>;
+    async *paginate(url: FetchFnUrl, options?: PaginationOptions<OkFetchResult<T>, TFetchInit, unknown>): AsyncIterable<unknown> {
+        let init = options?.init;
+        let next: FetchFnUrl | null | undefined = url;
+        const visited = new Set<string>();
+        const keyOf = (u: FetchFnUrl) => u instanceof Request ? u.url : u.toString();
+        for (let count = 0; next && count < (options?.maxPages ?? Infinity) && !init?.signal?.aborted; ++count) {
+            const pageUrl = this.#resolveUrl(next, init);
+            visited.add(keyOf(pageUrl));
+            const page = await this.fetch(next, init);
+            if (!isOkPage<T>(page)) {
+                if (!options?.getItems) {
+                    yield page;
+                }
+                return;
+            }
+            if (options?.getItems) {
+                yield* options.getItems(page);
+            }
+            else {
+                yield page;
+            }
+            next = options?.getNext ?
+                options.getNext(page) :
+                parseLinkHeader(page.headers.get('link')).find(l => l.rel.includes('next'))?.href;
+            if (typeof next === 'string' && !(pageUrl instanceof Request)) {
+                // Relative links are relative to the page that contains them, not to the base URL.
+                try {
+                    next = new URL(next, pageUrl).toString();
+                }
+                catch {
+                    // The page URL is relative too, so the link is left for the data-fetching function to resolve.
+                }
+            }
+            if (next && visited.has(keyOf(next))) {
+                return;
+            }
+            // The next URLs are complete, so the URL template parameters and the query data no longer apply.
+            init = { ...init, params: undefined, query: undefined } as TFetchInit;
+        }
+    }
+
+    #resolveUrl(url: FetchFnUrl, init?: TFetchInit) {
+        if (url instanceof Request) {
+            return url;
+        }
+        if (typeof url === 'string') {
+            if (init?.params) {
+                url = expandUrlTemplate(url, init.params);
+            }
+            if (this.#baseUrl !== undefined && !isAbsoluteUrl(url)) {
+                url = joinUrl(this.#baseUrl, url);
+            }
+        }
+        if (init?.query) {
+            url = appendQueryString(url, this.#querySerializer(init.query));
+        }
+        return url;
+    }
+
+    /**
+     * Finds the body serializer for the given media type.  Custom serializers have priority over the stock ones, and 
+     * media types with the `+json` structured syntax suffix fall back to the JSON serializer.
+     * @param mediaType The media type of the body.
+     * @returns The body serializer, or `undefined` if there is none for the media type.
+     */
+    #findSerializer(mediaType: string): BodySerializerFn | undefined {
+        const serializerFn = this.#serializers.get(mediaType) ?? (mediaType === 'application/json' ?
+            (body: unknown) => stringifyJson(body, this.#json) :
+            stockSerializers.get(mediaType));
+        if (!serializerFn && mediaType.endsWith('+json')) {
+            return this.#findSerializer('application/json');
+        }
+        return serializerFn;
     }
 
     #createInit(body: BodyInit | null | Record<string, any> | undefined, init?: FetchFnInit) {
-        init ??= {};
-        let headers: [string, string] | undefined;
-        if (isPojo(body) || Array.isArray(body)) {
-            body = JSON.stringify(body);
-            headers = ['content-type', 'application/json'];
+        // The caller's init object and headers are never modified.
+        init = { ...init };
+        const contentTypeHeader = getHeader(init.headers ?? {}, 'content-type');
+        const contentType = Array.isArray(contentTypeHeader) ? contentTypeHeader[0] : contentTypeHeader as string | undefined;
+        let mediaType = init.bodyType ?? (contentType ? mediaTypeOf(contentType) : undefined);
+        if (body !== null && body !== undefined && !isNativeBody(body)) {
+            const serializerFn = mediaType ? this.#findSerializer(mediaType.toLowerCase()) : undefined;
+            if (serializerFn) {
+                body = serializerFn(body);
+            }
+            else if (isPojo(body) || Array.isArray(body)) {
+                body = stringifyJson(body, this.#json);
+                mediaType = 'application/json';
+            }
+        }
+        if (body instanceof FormData) {
+            // The data-fetching function must generate the header because it carries the multipart boundary.
+            if (contentType && mediaTypeOf(contentType) === 'multipart/form-data' && !/boundary=/i.test(contentType)) {
+                init.headers = mergeHeaders(init.headers);
+                removeHeader(init, 'content-type');
+            }
         }
-        if (headers && !hasHeader(init.headers ?? {}, 'content-type')) {
-            setHeaders(init, [headers]);
+        else if (mediaType && !contentType && body !== null && body !== undefined) {
+            init.headers = mergeHeaders(init.headers, [['content-type', mediaType]]);
         }
-        init.body = body;
+        init.body = body as BodyInit | null | undefined;
         return init;
     }
 
     /**
      * Shortcut method to emit a GET HTTP request.
-     * @param url URL for the fetch function call.
+     * @param url URL for the fetch function call.  It can be a URL template with `:name` parameter placeholders.
+     * @param init Options for the fetch function call.  Required if the URL template has parameters, in which case 
+     * the `params` property must provide their values.
      * @returns A response object with the HTTP response's `ok`, `status`, `statusText` and `body` properties.
      */
-    get(url: URL | string, init?: Omit<TFetchInit, 'method' | 'body'>) {
+    get<TUrl extends string>(url: URL | TUrl, ...[init]: ShortcutArgs<Omit<TFetchInit, 'method' | 'body'>, TUrl>) {
         return this.fetch(url, { ...init, method: 'GET' } as TFetchInit);
     }
 
     /**
      * Shortcut method to emit a HEAD HTTP request.
-     * @param url URL for the fetch function call.
+     * @param url URL for the fetch function call.  It can be a URL template with `:name` parameter placeholders.
+     * @param init Options for the fetch function call.  Required if the URL template has parameters, in which case 
+     * the `params` property must provide their values.
      * @returns A response object with the HTTP response's `ok`, `status`, `statusText` and `body` properties.
      */
-    head(url: URL | string, init?: Omit<TFetchInit, 'method' | 'body'>) {
+    head<TUrl extends string>(url: URL | TUrl, ...[init]: ShortcutArgs<Omit<TFetchInit, 'method' | 'body'>, TUrl>) {
         return this.fetch(url, { ...init, method: 'HEAD' } as TFetchInit);
     }
 
     /**
      * Shortcut method to emit a POST HTTP request.
-     * @param url URL for the fetch function call.
+     * @param url URL for the fetch function call.  It can be a URL template with `:name` parameter placeholders.
      * @param body The data to send as body.
      * 
      * If a POJO is passed, it will be stringified and the `Content-Type` header of the request will be set to 
-     * `'application/json'`.  This is also true with arrays.
+     * `'application/json'`.  This is also true with arrays.  Use the `bodyType` option (or an explicit `Content-Type` 
+     * header) to select a different body serializer.  See `withSerializer()` for details.
      * 
      * > **NOTE**:  You must make sure that the POJO or the array (and its elements) you pass as body are serializable.
      * 
      * Any other body type will not generate a `Content-Type` header and will be reliant on what the `fetch()` function 
      * does in those cases.
+     * @param init Options for the fetch function call.  Required if the URL template has parameters, in which case 
+     * the `params` property must provide their values.
      * @returns A response object with the HTTP response's `ok`, `status`, `statusText` and `body` properties.
      */
-    post(url: URL | string, body?: BodyInit | null | Record<string, any>, init?: Omit<TFetchInit, 'method' | 'body'>) {
+    post<TUrl extends string>(url: URL | TUrl, ...[body, init]: ShortcutWithBodyArgs<Omit<TFetchInit, 'method' | 'body'>, TUrl>) {
         const fullInit = this.#createInit(body, init);
         fullInit.method = 'POST';
         return this.fetch(url, fullInit as TFetchInit);
@@ -410,19 +1923,22 @@ export class DrFetch<
 
     /**
      * Shortcut method to emit a PATCH HTTP request.
-     * @param url URL for the fetch function call.
+     * @param url URL for the fetch function call.  It can be a URL template with `:name` parameter placeholders.
      * @param body The data to send as body.
      * 
      * If a POJO is passed, it will be stringified and the `Content-Type` header of the request will be set to 
-     * `'application/json'`.  This is also true with arrays.
+     * `'application/json'`.  This is also true with arrays.  Use the `bodyType` option (or an explicit `Content-Type` 
+     * header) to select a different body serializer.  See `withSerializer()` for details.
      * 
      * > **NOTE**:  You must make sure that the POJO or the array (and its elements) you pass as body are serializable.
      * 
      * Any other body type will not generate a `Content-Type` header and will be reliant on what the `fetch()` function 
      * does in those cases.
+     * @param init Options for the fetch function call.  Required if the URL template has parameters, in which case 
+     * the `params` property must provide their values.
      * @returns A response object with the HTTP response's `ok`, `status`, `statusText` and `body` properties.
      */
-    patch(url: URL | string, body?: BodyInit | null | Record<string, any>, init?: Omit<TFetchInit, 'method' | 'body'>) {
+    patch<TUrl extends string>(url: URL | TUrl, ...[body, init]: ShortcutWithBodyArgs<Omit<TFetchInit, 'method' | 'body'>, TUrl>) {
         const fullInit = this.#createInit(body, init);
         fullInit.method = 'PATCH';
         return this.fetch(url, fullInit as TFetchInit);
@@ -430,19 +1946,22 @@ export class DrFetch<
 
     /**
      * Shortcut method to emit a DELETE HTTP request.
-     * @param url URL for the fetch function call.
+     * @param url URL for the fetch function call.  It can be a URL template with `:name` parameter placeholders.
      * @param body The data to send as body.
      * 
      * If a POJO is passed, it will be stringified and the `Content-Type` header of the request will be set to 
-     * `'application/json'`.  This is also true with arrays.
+     * `'application/json'`.  This is also true with arrays.  Use the `bodyType` option (or an explicit `Content-Type` 
+     * header) to select a different body serializer.  See `withSerializer()` for details.
      * 
      * > **NOTE**:  You must make sure that the POJO or the array (and its elements) you pass as body are serializable.
      * 
      * Any other body type will not generate a `Content-Type` header and will be reliant on what the `fetch()` function 
      * does in those cases.
+     * @param init Options for the fetch function call.  Required if the URL template has parameters, in which case 
+     * the `params` property must provide their values.
      * @returns A response object with the HTTP response's `ok`, `status`, `statusText` and `body` properties.
      */
-    delete(url: URL | string, body?: BodyInit | null | Record<string, any>, init?: Omit<TFetchInit, 'method' | 'body'>) {
+    delete<TUrl extends string>(url: URL | TUrl, ...[body, init]: ShortcutWithBodyArgs<Omit<TFetchInit, 'method' | 'body'>, TUrl>) {
         const fullInit = this.#createInit(body, init);
         fullInit.method = 'DELETE';
         return this.fetch(url, fullInit as TFetchInit);
@@ -450,19 +1969,22 @@ export class DrFetch<
 
     /**
      * Shortcut method to emit a PUT HTTP request.
-     * @param url URL for the fetch function call.
+     * @param url URL for the fetch function call.  It can be a URL template with `:name` parameter placeholders.
      * @param body The data to send as body.
      * 
      * If a POJO is passed, it will be stringified and the `Content-Type` header of the request will be set to 
-     * `'application/json'`.  This is also true with arrays.
+     * `'application/json'`.  This is also true with arrays.  Use the `bodyType` option (or an explicit `Content-Type` 
+     * header) to select a different body serializer.  See `withSerializer()` for details.
      * 
      * > **NOTE**:  You must make sure that the POJO or the array (and its elements) you pass as body are serializable.
      * 
      * Any other body type will not generate a `Content-Type` header and will be reliant on what the `fetch()` function 
      * does in those cases.
+     * @param init Options for the fetch function call.  Required if the URL template has parameters, in which case 
+     * the `params` property must provide their values.
      * @returns A response object with the HTTP response's `ok`, `status`, `statusText` and `body` properties.
      */
-    put(url: URL | string, body?: BodyInit | null | Record<string, any>, init?: Omit<TFetchInit, 'method' | 'body'>) {
+    put<TUrl extends string>(url: URL | TUrl, ...[body, init]: ShortcutWithBodyArgs<Omit<TFetchInit, 'method' | 'body'>, TUrl>) {
         const fullInit = this.#createInit(body, init);
         fullInit.method = 'PUT';
         return this.fetch(url, fullInit as TFetchInit);
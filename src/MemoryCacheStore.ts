@@ -0,0 +1,56 @@
+import type { CacheEntry, CacheStore } from "./types.js";
+
+/**
+ * # MemoryCacheStore
+ * 
+ * Cache store that keeps cache entries in memory, discarding the least recently used entries once the maximum number 
+ * of entries is reached.  This is the cache store `DrFetch.withCache()` uses when no cache store is specified.
+ */
+export class MemoryCacheStore implements CacheStore {
+    #entries = new Map<string, CacheEntry>();
+    #maxEntries: number;
+
+    /**
+     * Initializes a new instance of this class.
+     * @param maxEntries Maximum number of entries the cache store can hold.  The default is `100`.
+     */
+    constructor(maxEntries = 100) {
+        this.#maxEntries = maxEntries;
+    }
+
+    /**
+     * Gets the number of entries currently stored.
+     */
+    get size() {
+        return this.#entries.size;
+    }
+
+    get(key: string) {
+        const entry = this.#entries.get(key);
+        if (entry) {
+            // Re-inserting moves the entry to the end of the map:  The most recently used position.
+            this.#entries.delete(key);
+            this.#entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    set(key: string, entry: CacheEntry) {
+        this.#entries.delete(key);
+        this.#entries.set(key, entry);
+        while (this.#entries.size > this.#maxEntries) {
+            this.#entries.delete(this.#entries.keys().next().value!);
+        }
+    }
+
+    delete(key: string) {
+        this.#entries.delete(key);
+    }
+
+    /**
+     * Removes all entries from the cache store.
+     */
+    clear() {
+        this.#entries.clear();
+    }
+}
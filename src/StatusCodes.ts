@@ -1,9 +1,42 @@
+import type {
+    ClientErrorStatusCode,
+    InformationalStatusCode,
+    OkStatusCode,
+    RedirectStatusCode,
+    ServerErrorStatusCode
+} from "./types.js";
+
 /**
- * Enumerates all standardized HTTP status codes, except for the ones in the 1xx and 3xx ranges.
+ * Enumerates all standardized HTTP status codes.
  * 
  * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Reference/Status)
  */
 export const StatusCodes = Object.freeze({
+    /**
+     * The server has received the request headers and the client should proceed to send the request body.
+     * 
+     * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/100)
+     */
+    Continue: 100,
+    /**
+     * The server is switching protocols, as requested by the client in the `Upgrade` HTTP header.
+     * 
+     * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/101)
+     */
+    SwitchingProtocols: 101,
+    /**
+     * The server has received and is processing the request, but no response is available yet.
+     * 
+     * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/102)
+     */
+    Processing: 102,
+    /**
+     * The server sends some response headers (usually `Link` headers) so the client can start preloading resources 
+     * while the server prepares the final response.
+     * 
+     * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/103)
+     */
+    EarlyHints: 103,
     /**
      * The request has succeeded.
      * 
@@ -70,6 +103,56 @@ export const StatusCodes = Object.freeze({
      * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/226)
      */
     IMUsed: 226,
+    /**
+     * The request has more than one possible response, and the client should choose one of them.
+     * 
+     * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/300)
+     */
+    MultipleChoices: 300,
+    /**
+     * The URL of the requested resource has been changed permanently.  The new URL is given in the response.
+     * 
+     * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/301)
+     */
+    MovedPermanently: 301,
+    /**
+     * The URL of the requested resource has been changed temporarily.  The new URL is given in the response.
+     * 
+     * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/302)
+     */
+    Found: 302,
+    /**
+     * The server directs the client to get the requested resource at another URI with a GET request.
+     * 
+     * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/303)
+     */
+    SeeOther: 303,
+    /**
+     * The response has not been modified, so the client can continue to use the cached version of the response.
+     * 
+     * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/304)
+     */
+    NotModified: 304,
+    /**
+     * The requested response must be accessed by a proxy.  It has been deprecated due to security concerns.
+     * 
+     * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/305)
+     */
+    UseProxy: 305,
+    /**
+     * The server directs the client to get the requested resource at another URI with the same method that was used 
+     * in the prior request.
+     * 
+     * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/307)
+     */
+    TemporaryRedirect: 307,
+    /**
+     * The resource is now permanently located at another URI, and the client must use the same method that was used 
+     * in the prior request.
+     * 
+     * [Online Documentation at MDN](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/308)
+     */
+    PermanentRedirect: 308,
     /**
      * The server cannot or will not process the request due to something that is perceived to be a client error 
      * (e.g., malformed request syntax, invalid request message framing, or deceptive request routing).
@@ -315,3 +398,129 @@ export const StatusCodes = Object.freeze({
      */
     NetworkAuthenticationRequired: 511,
 });
+
+/**
+ * Reason phrases of the standardized HTTP status codes, as found in the RFC's that define them.
+ */
+const reasonPhrases: Readonly<Record<number, string>> = Object.freeze({
+    100: 'Continue',
+    101: 'Switching Protocols',
+    102: 'Processing',
+    103: 'Early Hints',
+    200: 'OK',
+    201: 'Created',
+    202: 'Accepted',
+    203: 'Non-Authoritative Information',
+    204: 'No Content',
+    205: 'Reset Content',
+    206: 'Partial Content',
+    207: 'Multi-Status',
+    208: 'Already Reported',
+    226: 'IM Used',
+    300: 'Multiple Choices',
+    301: 'Moved Permanently',
+    302: 'Found',
+    303: 'See Other',
+    304: 'Not Modified',
+    305: 'Use Proxy',
+    307: 'Temporary Redirect',
+    308: 'Permanent Redirect',
+    400: 'Bad Request',
+    401: 'Unauthorized',
+    402: 'Payment Required',
+    403: 'Forbidden',
+    404: 'Not Found',
+    405: 'Method Not Allowed',
+    406: 'Not Acceptable',
+    407: 'Proxy Authentication Required',
+    408: 'Request Timeout',
+    409: 'Conflict',
+    410: 'Gone',
+    411: 'Length Required',
+    412: 'Precondition Failed',
+    413: 'Content Too Large',
+    414: 'URI Too Long',
+    415: 'Unsupported Media Type',
+    416: 'Range Not Satisfiable',
+    417: 'Expectation Failed',
+    418: "I'm a teapot",
+    421: 'Misdirected Request',
+    422: 'Unprocessable Content',
+    423: 'Locked',
+    424: 'Failed Dependency',
+    425: 'Too Early',
+    426: 'Upgrade Required',
+    428: 'Precondition Required',
+    429: 'Too Many Requests',
+    431: 'Request Header Fields Too Large',
+    451: 'Unavailable For Legal Reasons',
+    500: 'Internal Server Error',
+    501: 'Not Implemented',
+    502: 'Bad Gateway',
+    503: 'Service Unavailable',
+    504: 'Gateway Timeout',
+    505: 'HTTP Version Not Supported',
+    506: 'Variant Also Negotiates',
+    507: 'Insufficient Storage',
+    508: 'Loop Detected',
+    510: 'Not Extended',
+    511: 'Network Authentication Required',
+});
+
+/**
+ * Gets the reason phrase of the given HTTP status code.
+ * @param status The status code.
+ * @returns The reason phrase of the status code, or `undefined` if the status code is not a standardized one.
+ * @example
+ * ```typescript
+ * getReasonPhrase(StatusCodes.NotFound); // --> 'Not Found'
+ * ```
+ */
+export function getReasonPhrase(status: number): string | undefined {
+    return reasonPhrases[status];
+}
+
+/**
+ * Determines if the given status code is an informational status code (1xx).
+ * @param status The status code to test.
+ * @returns `true` if the status code is in the 1xx range, or `false` otherwise.
+ */
+export function isInformational<T extends number>(status: T): status is T & InformationalStatusCode {
+    return status >= 100 && status < 200;
+}
+
+/**
+ * Determines if the given status code is an OK status code (2xx).
+ * @param status The status code to test.
+ * @returns `true` if the status code is in the 2xx range, or `false` otherwise.
+ */
+export function isOk<T extends number>(status: T): status is T & OkStatusCode {
+    return status >= 200 && status < 300;
+}
+
+/**
+ * Determines if the given status code is a redirection status code (3xx).
+ * @param status The status code to test.
+ * @returns `true` if the status code is in the 3xx range, or `false` otherwise.
+ */
+export function isRedirect<T extends number>(status: T): status is T & RedirectStatusCode {
+    return status >= 300 && status < 400;
+}
+
+/**
+ * Determines if the given status code is a client-sided error status code (4xx).
+ * @param status The status code to test.
+ * @returns `true` if the status code is in the 4xx range, or `false` otherwise.
+ */
+export function isClientError<T extends number>(status: T): status is T & ClientErrorStatusCode {
+    return status >= 400 && status < 500;
+}
+
+/**
+ * Determines if the given status code is a server-sided error status code (5xx).
+ * @param status The status code to test.
+ * @returns `true` if the status code is in the 5xx range, or `false` otherwise.
+ */
+export function isServerError<T extends number>(status: T): status is T & ServerErrorStatusCode {
+    return status >= 500 && status < 600;
+}
@@ -0,0 +1,87 @@
+import type { AuthOptions } from "./types.js";
+
+/**
+ * Authentication state that is shared by a fetcher and the fetchers derived from it.
+ */
+export type AuthState = {
+    /**
+     * The authentication options.
+     */
+    options: AuthOptions;
+    /**
+     * Number of token refreshes that have succeeded.  It tells whether the token used by an HTTP request is still the 
+     * latest one.
+     */
+    generation: number;
+    /**
+     * The token refresh in progress, if any.  It resolves to `true` if the refresh succeeded.
+     */
+    refreshing?: Promise<boolean>;
+};
+
+/**
+ * Creates a new authentication state object.
+ * @param options The authentication options.
+ * @returns The new authentication state object.
+ */
+export function createAuthState(options: AuthOptions): AuthState {
+    return {
+        options: { ...options },
+        generation: 0,
+    };
+}
+
+/**
+ * Obtains the current access token, waiting for any token refresh in progress.
+ * @param state The authentication state.
+ * @returns The token and the refresh generation it belongs to.
+ */
+export async function acquireToken(state: AuthState) {
+    while (state.refreshing) {
+        await state.refreshing;
+    }
+    const generation = state.generation;
+    return {
+        token: await state.options.getToken(),
+        generation,
+    };
+}
+
+/**
+ * Refreshes the access token, unless it has been refreshed since the given generation.  Concurrent callers share a 
+ * single refresh.
+ * @param state The authentication state.
+ * @param generation The refresh generation of the token that was rejected.
+ * @returns `true` if a newer token is available, or `false` otherwise.
+ */
+export function refreshToken(state: AuthState, generation: number) {
+    if (state.refreshing) {
+        return state.refreshing;
+    }
+    if (state.generation !== generation) {
+        return Promise.resolve(true);
+    }
+    const refreshing = Promise.resolve()
+        .then(() => state.options.refreshToken?.())
+        .then(
+            () => {
+                ++state.generation;
+                return true;
+            },
+            () => false
+        )
+        .finally(() => state.refreshing = undefined);
+    state.refreshing = refreshing;
+    return refreshing;
+}
+
+/**
+ * Builds the value of the `Authorization` HTTP header for the given token.
+ * @param scheme The authentication scheme.
+ * @param token The access token.
+ * @returns The header's value.
+ */
+export function authorizationValue(scheme: string | undefined, token: string) {
+    scheme ??= 'Bearer';
+    return scheme ? `${scheme} ${token}` : token;
+}
@@ -0,0 +1,140 @@
+import type { CacheEntry } from "./types.js";
+import { parseCacheControl } from "./headers.js";
+
+function seconds(value: string | true | undefined) {
+    const n = typeof value === 'string' ? Number.parseInt(value, 10) : Number.NaN;
+    return Number.isNaN(n) ? undefined : Math.max(n, 0) * 1000;
+}
+
+/**
+ * Request HTTP headers that identify the user.  Entries are never shared among HTTP requests with different values for 
+ * them.
+ */
+const credentialHeaders = ['authorization', 'cookie'];
+
+/**
+ * Calculates the freshness information of the given response, according to its `Cache-Control` and `Expires` HTTP 
+ * headers.
+ * @param headers The response's headers.
+ * @param shared Whether the cache is shared among users, in which case private responses must not be stored.
+ * @returns An object with the freshness lifetime and the stale-while-revalidate window (both in milliseconds), or 
+ * `undefined` if the response must not be stored.
+ */
+export function getFreshness(headers: Headers, shared: boolean) {
+    const directives = parseCacheControl(headers.get('cache-control'));
+    if (directives['no-store'] || (shared && directives['private']) || headers.get('vary')?.trim() === '*') {
+        return undefined;
+    }
+    let maxAge = directives['no-cache'] ? 0 : seconds(directives['max-age']);
+    if (maxAge === undefined) {
+        const expires = Date.parse(headers.get('expires') ?? '');
+        maxAge = Number.isNaN(expires) ? undefined : Math.max(expires - Date.now(), 0);
+    }
+    const hasValidators = headers.has('etag') || headers.has('last-modified');
+    if (maxAge === undefined && !hasValidators) {
+        return undefined;
+    }
+    return {
+        maxAge: maxAge ?? 0,
+        staleWhileRevalidate: seconds(directives['stale-while-revalidate']) ?? 0,
+    };
+}
+
+/**
+ * Determines if the given body is read by whoever gets it (like streams do), in which case it cannot be stored.
+ * @param body Body under test.
+ * @returns `true` if the body is a stream or a response object, or `false` otherwise.
+ */
+function isUnreadBody(body: unknown) {
+    return typeof body === 'object' && body !== null &&
+        (Symbol.asyncIterator in body || body instanceof ReadableStream || body instanceof Response);
+}
+
+/**
+ * Obtains the values of the request HTTP headers named by the `Vary` HTTP header of the given response.  Credential 
+ * headers are left out because they are part of the cache key.
+ * @param response The response.
+ * @param requestHeaders The HTTP headers of the HTTP request that produced the response.
+ * @returns The values of the request HTTP headers, or `undefined` if the response does not vary.
+ */
+function varyValues(response: Response, requestHeaders: Headers) {
+    const names = (response.headers.get('vary') ?? '')
+        .split(',')
+        .map(n => n.trim().toLowerCase())
+        .filter(n => n && !credentialHeaders.includes(n));
+    if (!names.length) {
+        return undefined;
+    }
+    const values: Record<string, string | null> = {};
+    for (let name of names) {
+        values[name] = requestHeaders.get(name);
+    }
+    return values;
+}
+
+/**
+ * Determines if the given cache entry can be used for an HTTP request with the given HTTP headers, according to the 
+ * `Vary` HTTP header of the stored response.
+ * @param entry The cache entry.
+ * @param requestHeaders The HTTP headers of the HTTP request.
+ * @returns `true` if the entry matches the HTTP request, or `false` otherwise.
+ */
+export function matchesVary(entry: CacheEntry, requestHeaders: Headers) {
+    return Object.entries(entry.vary ?? {}).every(([name, value]) => requestHeaders.get(name) === value);
+}
+
+/**
+ * Builds the part of the cache key that separates the entries of different users, by hashing the values of the 
+ * credential HTTP headers (so the cache store never sees them).
+ * @param requestHeaders The HTTP headers of the HTTP request.
+ * @returns The hexadecimal hash of the credentials, an empty string if the HTTP request carries no credentials, or 
+ * `undefined` if the credentials cannot be hashed because Web Crypto is not available (like in browser pages that are 
+ * not served over HTTPS).
+ */
+export async function credentialsKey(requestHeaders: Headers) {
+    const credentials = credentialHeaders.map(h => requestHeaders.get(h));
+    if (credentials.every(c => c === null)) {
+        return '';
+    }
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+        return undefined;
+    }
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(credentials)));
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Creates a cache entry for the given response and its parsed body.
+ * @param response The response to store.
+ * @param body The response's parsed body.
+ * @param requestHeaders The HTTP headers of the HTTP request that produced the response.
+ * @param shared Whether the cache is shared among users.
+ * @returns The new cache entry, or `undefined` if the response cannot be stored.
+ */
+export function createCacheEntry(
+    response: Response,
+    body: unknown,
+    requestHeaders: Headers,
+    shared: boolean
+): CacheEntry | undefined {
+    if (response.status !== 200 || isUnreadBody(body)) {
+        return undefined;
+    }
+    const freshness = getFreshness(response.headers, shared);
+    if (!freshness) {
+        return undefined;
+    }
+    return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: [...response.headers],
+        body,
+        storedAt: Date.now(),
+        ...freshness,
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined,
+        url: response.url,
+        redirected: response.redirected,
+        vary: varyValues(response, requestHeaders),
+    };
+}
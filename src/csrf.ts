@@ -0,0 +1,123 @@
+import type { CsrfOptions, CsrfTokenSource } from "./types.js";
+import { originOf } from "./url.js";
+
+/**
+ * CSRF state that is shared by a fetcher and its clones.
+ */
+export type CsrfState = {
+    /**
+     * The CSRF options, with their default values applied.
+     */
+    options: Required<Omit<CsrfOptions, 'responseHeader' | 'allowedOrigins'>> & Pick<CsrfOptions, 'responseHeader' | 'allowedOrigins'>;
+    /**
+     * The last CSRF token received in a response HTTP header, if any.
+     */
+    token?: string;
+};
+
+/**
+ * Creates a new CSRF state object.
+ * @param options The CSRF options.
+ * @returns The new CSRF state object.
+ */
+export function createCsrfState(options: CsrfOptions | undefined): CsrfState {
+    return {
+        options: {
+            source: options?.source ?? { cookie: 'XSRF-TOKEN' },
+            header: options?.header ?? 'X-XSRF-TOKEN',
+            methods: (options?.methods ?? ['POST', 'PUT', 'PATCH', 'DELETE']).map(m => m.toUpperCase()),
+            responseHeader: options?.responseHeader,
+            allowedOrigins: options?.allowedOrigins,
+        },
+    };
+}
+
+/**
+ * Reads the value of the specified cookie from `document.cookie`.
+ * @param name The cookie's name.
+ * @returns The cookie's value, or `undefined` if the cookie is not found or there is no document.
+ */
+function readCookie(name: string) {
+    if (typeof document === 'undefined') {
+        return undefined;
+    }
+    for (let cookie of document.cookie.split(';')) {
+        const separator = cookie.indexOf('=');
+        if (separator >= 0 && cookie.slice(0, separator).trim() === name) {
+            const value = cookie.slice(separator + 1).trim();
+            try {
+                return decodeURIComponent(value);
+            }
+            catch {
+                return value;
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Reads the content of the specified `<meta>` tag.
+ * @param name The value of the tag's `name` attribute.
+ * @returns The tag's content, or `undefined` if the tag is not found or there is no document.
+ */
+function readMeta(name: string) {
+    if (typeof document === 'undefined') {
+        return undefined;
+    }
+    const meta = document.querySelector(`meta[name="${name.replace(/["\\]/g, '\\$&')}"]`);
+    return meta?.getAttribute('content') ?? undefined;
+}
+
+/**
+ * Reads the CSRF token from the given source.
+ * @param source The source of the CSRF token.
+ * @returns The CSRF token, if any.
+ */
+function readToken(source: CsrfTokenSource) {
+    if (typeof source === 'function') {
+        return source();
+    }
+    return 'cookie' in source ? readCookie(source.cookie) : readMeta(source.meta);
+}
+
+/**
+ * Obtains the current CSRF token.  Tokens received in response HTTP headers take precedence over the source.
+ * @param state The CSRF state.
+ * @returns The CSRF token, if any.
+ */
+export async function getCsrfToken(state: CsrfState) {
+    return state.token ?? await readToken(state.options.source) ?? undefined;
+}
+
+/**
+ * Determines if the given URL is trusted with the CSRF token:  Relative URLs and URLs of the current page's origin are, 
+ * and so are URLs of the origin of the fetcher's base URL and of the allowed origins.
+ * @param state The CSRF state.
+ * @param url The URL.
+ * @param baseUrl The fetcher's base URL, if any.
+ * @returns `true` if the URL is trusted with the CSRF token, or `false` otherwise.
+ */
+export function isCsrfTrusted(state: CsrfState, url: string, baseUrl: URL | string | undefined) {
+    const origin = originOf(url);
+    if (origin === undefined || (typeof location !== 'undefined' && origin === location.origin)) {
+        return true;
+    }
+    return (baseUrl !== undefined && origin === originOf(baseUrl)) ||
+        !!state.options.allowedOrigins?.some(o => originOf(o) === origin);
+}
+
+/**
+ * Stores the CSRF token carried by the given response, if any, provided that the response comes from a trusted URL.
+ * @param state The CSRF state.
+ * @param response The response to inspect.
+ * @param url The URL of the HTTP request that produced the response.
+ * @param baseUrl The fetcher's base URL, if any.
+ */
+export function storeCsrfToken(state: CsrfState, response: Response, url: string, baseUrl: URL | string | undefined) {
+    const token = state.options.responseHeader ? response.headers.get(state.options.responseHeader) : null;
+    // Redirected responses come from their final URL.
+    if (token && isCsrfTrusted(state, response.url || url, baseUrl)) {
+        state.token = token;
+    }
+}
@@ -160,3 +160,751 @@ export function getHeader(headers: HeaderInput, header: string) {
     }
     return undefined;
 }
+
+/**
+ * Removes the specified HTTP header from the `init.headers` property of the given `init` object.
+ * 
+ * The removal is case-insensitive, so every occurrence of the header is removed, even if tuples or POJO's list it 
+ * more than once with different casing.
+ * @param init The `init` object whose header is removed.
+ * @param header The header to remove.
+ */
+export function removeHeader(init: Exclude<FetchFnInit, undefined>, header: string) {
+    if (!init) {
+        throw new Error("The 'init' argument cannot be undefined.");
+    }
+    const headers = init.headers;
+    const lcHeader = header.toLowerCase();
+    if (headers instanceof Headers) {
+        headers.delete(header);
+    }
+    else if (Array.isArray(headers)) {
+        for (let i = headers.length - 1; i >= 0; --i) {
+            if (headers[i][0].toLowerCase() === lcHeader) {
+                headers.splice(i, 1);
+            }
+        }
+    }
+    else if (headers) {
+        for (let key of Object.keys(headers)) {
+            if (key.toLowerCase() === lcHeader) {
+                delete headers[key];
+            }
+        }
+    }
+}
+
+/**
+ * Appends the provided value(s) to the specified HTTP header in the `init.headers` property of the given `init` 
+ * object, keeping any values the header may already have.
+ * 
+ * The result is the same for all headers formats:  Values are combined the way the `Headers.append()` method does.  
+ * Tuples receive a new tuple per value, while POJO's end up with a single property whose value lists the existing 
+ * values (of all casings of the header's name) followed by the new ones.
+ * @param init The `init` object that receives the value(s).
+ * @param header The header that receives the value(s).
+ * @param value The value, or values, to append.
+ */
+export function appendHeader(init: Exclude<FetchFnInit, undefined>, header: string, value: string | ReadonlyArray<string>) {
+    if (!init) {
+        throw new Error("The 'init' argument cannot be undefined.");
+    }
+    const values = typeof value === 'string' ? [value] : value;
+    init.headers ??= new Headers();
+    const headers = init.headers;
+    if (headers instanceof Headers) {
+        for (let v of values) {
+            headers.append(header, v);
+        }
+    }
+    else if (Array.isArray(headers)) {
+        for (let v of values) {
+            headers.push([header, v]);
+        }
+    }
+    else {
+        const lcHeader = header.toLowerCase();
+        const existing: string[] = [];
+        let name: string | undefined;
+        for (let key of Object.keys(headers)) {
+            if (key.toLowerCase() === lcHeader) {
+                name ??= key;
+                existing.push(headers[key]);
+                delete headers[key];
+            }
+        }
+        headers[name ?? header] = [...existing, ...values].join(', ');
+    }
+}
+
+/**
+ * Converts the given headers source into a new `Headers` object.
+ * 
+ * Headers that appear more than once (which tuples, Map objects and POJO's allow by using different casings) have 
+ * their values combined, as does the `Headers.append()` method.
+ * @param headers The headers source to convert.
+ * @returns The new `Headers` object.
+ */
+export function toHeaders(headers: HeaderInput) {
+    const result = new Headers();
+    for (let [key, value] of makeIterableHeaders(headers)) {
+        for (let v of typeof value === 'string' ? [value] : value) {
+            result.append(key, v);
+        }
+    }
+    return result;
+}
+
+/**
+ * Converts the given headers source into a new POJO whose property names are the lower-cased header names.
+ * 
+ * Headers that appear more than once have their values combined into a single, comma-separated value, as does the 
+ * `Headers.get()` method.
+ * @param headers The headers source to convert.
+ * @returns The new POJO.
+ */
+export function toPojo(headers: HeaderInput) {
+    const result: Record<string, string> = {};
+    for (let [key, value] of toHeaders(headers)) {
+        // Set-Cookie headers are enumerated individually.
+        result[key] = Object.hasOwn(result, key) ? `${result[key]}, ${value}` : value;
+    }
+    return result;
+}
+
+/**
+ * Merges the given headers sources into a new `Headers` object.
+ * 
+ * Sources are processed in order, and later sources take precedence:  The values of a header in a source replace the 
+ * values the header had in earlier sources, regardless of the casing of the header's name.  Within a single source, 
+ * the values of repeated headers are combined.  Null and undefined sources are skipped.
+ * @param sources The headers sources to merge.
+ * @returns The new `Headers` object.
+ * @example
+ * ```typescript
+ * const headers = mergeHeaders(
+ *     { Accept: 'application/json', 'X-Trace': '1' },
+ *     [['accept', 'text/plain']]
+ * );
+ * // --> accept: text/plain, x-trace: 1
+ * ```
+ */
+export function mergeHeaders(...sources: (HeaderInput | null | undefined)[]) {
+    const result = new Headers();
+    for (let source of sources) {
+        if (!source) {
+            continue;
+        }
+        const headers = toHeaders(source);
+        for (let key of new Set(headers.keys())) {
+            result.delete(key);
+        }
+        for (let [key, value] of headers) {
+            result.append(key, value);
+        }
+    }
+    return result;
+}
+
+/**
+ * Defines the links found in `Link` HTTP headers.
+ */
+export type LinkHeaderEntry = {
+    /**
+     * The target URI of the link, as written in the header.
+     */
+    href: string;
+    /**
+     * The relation types of the link, in lower case.
+     */
+    rel: string[];
+    /**
+     * The parameters of the link (including `rel`), with lower-cased names and unquoted values.
+     */
+    params: Record<string, string>;
+};
+
+/**
+ * Defines the value of `Content-Disposition` HTTP headers.
+ */
+export type ContentDisposition = {
+    /**
+     * The disposition type, in lower case, such as `'attachment'` or `'inline'`.
+     */
+    type: string;
+    /**
+     * The file name.  The `filename*` parameter (RFC 5987) is preferred over the `filename` parameter.
+     */
+    filename?: string;
+    /**
+     * The parameters of the header, with lower-cased names and unquoted values.
+     */
+    params: Record<string, string>;
+};
+
+/**
+ * Defines the challenges found in `WWW-Authenticate` (and `Proxy-Authenticate`) HTTP headers.
+ */
+export type AuthChallenge = {
+    /**
+     * The authentication scheme, as written in the header, such as `'Bearer'` or `'Basic'`.
+     */
+    scheme: string;
+    /**
+     * The token68 value of the challenge, if the challenge has one instead of parameters.
+     */
+    token68?: string;
+    /**
+     * The parameters of the challenge, with lower-cased names and unquoted values.
+     */
+    params: Record<string, string>;
+};
+
+/**
+ * Defines the tokens of Structured Field Values (RFC 8941), which are distinct from strings.
+ */
+export type SfToken = { token: string; };
+
+/**
+ * Possible values of the bare items of Structured Field Values (RFC 8941).  Integers and decimals are numbers, and byte 
+ * sequences are `Uint8Array` objects.
+ */
+export type SfBareItem = number | string | boolean | Uint8Array | SfToken;
+
+/**
+ * Defines the parameters of the items and inner lists of Structured Field Values (RFC 8941).
+ */
+export type SfParameters = Record<string, SfBareItem>;
+
+/**
+ * Defines the items of Structured Field Values (RFC 8941).
+ */
+export type SfItem = { value: SfBareItem; params: SfParameters; };
+
+/**
+ * Defines the inner lists of Structured Field Values (RFC 8941).
+ */
+export type SfInnerList = { value: SfItem[]; params: SfParameters; };
+
+/**
+ * Helper that walks header values character by character.
+ */
+class HeaderScanner {
+    text: string;
+    pos = 0;
+
+    constructor(text: string) {
+        this.text = text;
+    }
+
+    get done() {
+        return this.pos >= this.text.length;
+    }
+
+    peek() {
+        return this.text[this.pos];
+    }
+
+    eat(ch: string) {
+        if (this.text[this.pos] === ch) {
+            ++this.pos;
+            return true;
+        }
+        return false;
+    }
+
+    skipWhitespace() {
+        while (this.peek() === ' ' || this.peek() === '\t') {
+            ++this.pos;
+        }
+    }
+
+    /**
+     * Reads the characters that match the given pattern, which must be sticky.
+     */
+    read(pattern: RegExp) {
+        pattern.lastIndex = this.pos;
+        const match = pattern.exec(this.text);
+        this.pos += match?.[0].length ?? 0;
+        return match?.[0] ?? '';
+    }
+
+    token() {
+        return this.read(/[!#$%&'*+\-.^_`|~\w]+/y);
+    }
+
+    /**
+     * Reads a quoted string (the current character must be the opening quote) and returns its unescaped value.
+     */
+    quoted() {
+        let value = '';
+        for (++this.pos; !this.done; ++this.pos) {
+            const ch = this.text[this.pos];
+            if (ch === '"') {
+                ++this.pos;
+                break;
+            }
+            value += ch === '\\' ? this.text[++this.pos] ?? '' : ch;
+        }
+        return value;
+    }
+
+    /**
+     * Reads a parameter value, which is either a quoted string or the characters up to the next delimiter.
+     */
+    value() {
+        return this.peek() === '"' ? this.quoted() : this.read(/[^\s;,]*/y);
+    }
+
+    /**
+     * Reads `; name=value` parameters until something else is found.  Only the first occurrence of every parameter 
+     * is kept.
+     */
+    params() {
+        const params: Record<string, string> = {};
+        for (this.skipWhitespace(); this.eat(';'); this.skipWhitespace()) {
+            this.skipWhitespace();
+            const name = this.token().toLowerCase();
+            this.skipWhitespace();
+            let value = '';
+            if (this.eat('=')) {
+                this.skipWhitespace();
+                value = this.value();
+            }
+            if (name && !Object.hasOwn(params, name)) {
+                params[name] = value;
+            }
+        }
+        return params;
+    }
+
+    /**
+     * Moves past the next comma, skipping quoted strings.
+     */
+    skipPastComma() {
+        while (!this.done && !this.eat(',')) {
+            if (this.peek() === '"') {
+                this.quoted();
+            }
+            else {
+                ++this.pos;
+            }
+        }
+    }
+}
+
+/**
+ * Parses the value of a `Link` HTTP header (RFC 8288).
+ * @param value The header's value.
+ * @returns The list of links found in the header.
+ * @example
+ * ```typescript
+ * const next = parseLinkHeader(response.headers.get('link')).find(l => l.rel.includes('next'))?.href;
+ * ```
+ */
+export function parseLinkHeader(value: string | null | undefined) {
+    const links: LinkHeaderEntry[] = [];
+    const scanner = new HeaderScanner(value ?? '');
+    while (!scanner.done) {
+        scanner.skipWhitespace();
+        if (scanner.eat('<')) {
+            const end = scanner.text.indexOf('>', scanner.pos);
+            if (end === -1) {
+                break;
+            }
+            const href = scanner.text.slice(scanner.pos, end);
+            scanner.pos = end + 1;
+            const params = scanner.params();
+            links.push({
+                href,
+                rel: (params.rel ?? '').toLowerCase().split(/\s+/).filter(r => r),
+                params,
+            });
+        }
+        scanner.skipPastComma();
+    }
+    return links;
+}
+
+/**
+ * Parses the value of a `Retry-After` HTTP header, which can be a number of seconds or an HTTP date.
+ * @param value The header's value.
+ * @returns The number of milliseconds to wait, or `undefined` if the value cannot be parsed.
+ */
+export function parseRetryAfter(value: string | null | undefined) {
+    if (!value) {
+        return undefined;
+    }
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed) * 1000;
+    }
+    // HTTP dates always name the month, which keeps Date.parse() from accepting things like negative numbers.
+    const date = /[a-z]/i.test(trimmed) ? Date.parse(trimmed) : Number.NaN;
+    return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Parses the directives of a `Cache-Control` HTTP header.
+ * @param value The header's value.
+ * @returns An object whose keys are the lower-cased directive names, and whose values are the unquoted directive 
+ * values (or `true` for directives without value).
+ * @example
+ * ```typescript
+ * parseCacheControl('public, max-age=60, no-cache="set-cookie"');
+ * // --> { public: true, 'max-age': '60', 'no-cache': 'set-cookie' }
+ * ```
+ */
+export function parseCacheControl(value: string | null | undefined) {
+    const directives: Record<string, string | true> = {};
+    const scanner = new HeaderScanner(value ?? '');
+    while (!scanner.done) {
+        scanner.skipWhitespace();
+        const name = scanner.token().toLowerCase();
+        scanner.skipWhitespace();
+        let directive: string | true = true;
+        if (scanner.eat('=')) {
+            scanner.skipWhitespace();
+            directive = scanner.value();
+        }
+        if (name && !Object.hasOwn(directives, name)) {
+            directives[name] = directive;
+        }
+        scanner.skipPastComma();
+    }
+    return directives;
+}
+
+/**
+ * Decodes an extended parameter value (RFC 8187), like the value of the `filename*` parameter.
+ * @param value Extended value, in the form `charset'language'percent-encoded-value`.
+ * @returns The decoded value, or `undefined` if it cannot be decoded.
+ */
+function decodeExtValue(value: string) {
+    const match = /^([\w!#$%&+\-^`{}~]+)'[\w-]*'(.*)$/.exec(value);
+    if (!match) {
+        return undefined;
+    }
+    try {
+        const bytes = match[2].replace(/%([\da-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+        return new TextDecoder(match[1], { fatal: true }).decode(Uint8Array.from(bytes, c => c.charCodeAt(0)));
+    }
+    catch {
+        return undefined;
+    }
+}
+
+/**
+ * Parses the value of a `Content-Disposition` HTTP header, including the RFC 5987 `filename*` parameter.
+ * @param value The header's value.
+ * @returns The parsed header, or `undefined` if there is no value.
+ * @example
+ * ```typescript
+ * parseContentDisposition(`attachment; filename="report.pdf"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf`); 
+ * // --> { type: 'attachment', filename: 'résumé.pdf', params: { ... } }
+ * ```
+ */
+export function parseContentDisposition(value: string | null | undefined): ContentDisposition | undefined {
+    if (!value?.trim()) {
+        return undefined;
+    }
+    const scanner = new HeaderScanner(value);
+    scanner.skipWhitespace();
+    const type = scanner.token().toLowerCase();
+    const params = scanner.params();
+    const extFilename = params['filename*'] === undefined ? undefined : decodeExtValue(params['filename*']);
+    return {
+        type,
+        filename: extFilename ?? params.filename,
+        params,
+    };
+}
+
+/**
+ * Parses the challenges of a `WWW-Authenticate` (or `Proxy-Authenticate`) HTTP header.
+ * @param value The header's value.
+ * @returns The list of challenges found in the header.
+ * @example
+ * ```typescript
+ * parseWwwAuthenticate('Bearer realm="api", error="invalid_token", Basic realm="legacy"');
+ * // --> [
+ * //     { scheme: 'Bearer', params: { realm: 'api', error: 'invalid_token' } },
+ * //     { scheme: 'Basic', params: { realm: 'legacy' } }
+ * // ]
+ * ```
+ */
+export function parseWwwAuthenticate(value: string | null | undefined) {
+    const challenges: AuthChallenge[] = [];
+    const scanner = new HeaderScanner(value ?? '');
+    while (!scanner.done) {
+        scanner.skipWhitespace();
+        const scheme = scanner.token();
+        if (!scheme) {
+            scanner.skipPastComma();
+            continue;
+        }
+        const challenge: AuthChallenge = { scheme, params: {} };
+        challenges.push(challenge);
+        scanner.skipWhitespace();
+        const token68 = scanner.read(/[\w\-.~+/]+=*(?=\s*(,|$))/y);
+        if (token68) {
+            challenge.token68 = token68;
+            scanner.skipPastComma();
+            continue;
+        }
+        while (!scanner.done) {
+            const start = scanner.pos;
+            scanner.skipWhitespace();
+            const name = scanner.token();
+            scanner.skipWhitespace();
+            if (!name || !scanner.eat('=')) {
+                // This is the scheme of the next challenge.
+                scanner.pos = start;
+                break;
+            }
+            scanner.skipWhitespace();
+            const paramValue = scanner.peek() === '"' ? scanner.quoted() : scanner.token();
+            challenge.params[name.toLowerCase()] ??= paramValue;
+            scanner.skipWhitespace();
+            scanner.eat(',');
+            scanner.skipWhitespace();
+        }
+    }
+    return challenges;
+}
+
+/**
+ * Parser of Structured Field Values, as specified in RFC 8941.  Every method throws on invalid input.
+ */
+class StructuredFieldParser extends HeaderScanner {
+    constructor(text: string) {
+        super(text.replace(/^ +| +$/g, ''));
+    }
+
+    fail(): never {
+        throw new Error(`Invalid structured field value at position ${this.pos}.`);
+    }
+
+    skipOws() {
+        this.skipWhitespace();
+    }
+
+    skipSp() {
+        while (this.eat(' ')) { }
+    }
+
+    /**
+     * Makes sure the whole value was consumed.
+     */
+    end<T>(result: T) {
+        if (!this.done) {
+            this.fail();
+        }
+        return result;
+    }
+
+    /**
+     * Parses the separator between list or dictionary members.  Returns `false` when the end was reached.
+     */
+    nextMember() {
+        this.skipOws();
+        if (this.done) {
+            return false;
+        }
+        if (!this.eat(',')) {
+            this.fail();
+        }
+        this.skipOws();
+        if (this.done) {
+            // Trailing commas are not allowed.
+            this.fail();
+        }
+        return true;
+    }
+
+    list() {
+        const members: (SfItem | SfInnerList)[] = [];
+        if (!this.done) {
+            do {
+                members.push(this.itemOrInnerList());
+            } while (this.nextMember());
+        }
+        return this.end(members);
+    }
+
+    dictionary() {
+        const members: Record<string, SfItem | SfInnerList> = {};
+        if (!this.done) {
+            do {
+                const key = this.key();
+                // Later occurrences of a key overwrite the value, but keep the original position.
+                members[key] = this.eat('=') ?
+                    this.itemOrInnerList() :
+                    { value: true, params: this.parameters() };
+            } while (this.nextMember());
+        }
+        return this.end(members);
+    }
+
+    itemOrInnerList(): SfItem | SfInnerList {
+        return this.peek() === '(' ? this.innerList() : this.item();
+    }
+
+    innerList(): SfInnerList {
+        this.eat('(');
+        const items: SfItem[] = [];
+        while (!this.done) {
+            this.skipSp();
+            if (this.eat(')')) {
+                return { value: items, params: this.parameters() };
+            }
+            items.push(this.item());
+            if (this.peek() !== ' ' && this.peek() !== ')') {
+                this.fail();
+            }
+        }
+        this.fail();
+    }
+
+    item(): SfItem {
+        return { value: this.bareItem(), params: this.parameters() };
+    }
+
+    parameters() {
+        const params: SfParameters = {};
+        while (this.eat(';')) {
+            this.skipSp();
+            const key = this.key();
+            params[key] = this.eat('=') ? this.bareItem() : true;
+        }
+        return params;
+    }
+
+    key() {
+        const key = this.read(/[a-z*][a-z\d_\-.*]*/y);
+        return key || this.fail();
+    }
+
+    bareItem(): SfBareItem {
+        const ch = this.peek();
+        if (ch === '-' || (ch >= '0' && ch <= '9')) {
+            return this.number();
+        }
+        else if (ch === '"') {
+            return this.string();
+        }
+        else if (ch === ':') {
+            return this.byteSequence();
+        }
+        else if (ch === '?') {
+            const value = this.read(/\?[01]/y);
+            return value ? value === '?1' : this.fail();
+        }
+        else if (ch === '*' || /[A-Za-z]/.test(ch ?? '')) {
+            return { token: this.read(/[A-Za-z*][!#$%&'*+\-.^_`|~\w:/]*/y) };
+        }
+        this.fail();
+    }
+
+    number() {
+        const text = this.read(/-?\d+(\.\d+)?/y);
+        const [integer, fraction] = text.replace('-', '').split('.');
+        if (!integer || (fraction === undefined ? integer.length > 15 : integer.length > 12 || fraction.length > 3)) {
+            this.fail();
+        }
+        return Number(text);
+    }
+
+    string() {
+        let value = '';
+        for (++this.pos; !this.done; ++this.pos) {
+            const ch = this.text[this.pos];
+            if (ch === '"') {
+                ++this.pos;
+                return value;
+            }
+            if (ch === '\\') {
+                const escaped = this.text[++this.pos];
+                if (escaped !== '"' && escaped !== '\\') {
+                    this.fail();
+                }
+                value += escaped;
+            }
+            else if (ch < ' ' || ch > '~') {
+                this.fail();
+            }
+            else {
+                value += ch;
+            }
+        }
+        this.fail();
+    }
+
+    byteSequence() {
+        const encoded = this.read(/:[A-Za-z\d+/=]*:/y);
+        if (!encoded) {
+            this.fail();
+        }
+        return Uint8Array.from(atob(encoded.slice(1, -1)), c => c.charCodeAt(0));
+    }
+}
+
+/**
+ * Runs the given structured field parsing function, turning parsing errors into `undefined`.
+ */
+function parseStructured<T>(value: string | null | undefined, parse: (parser: StructuredFieldParser) => T) {
+    if (value === null || value === undefined) {
+        return undefined;
+    }
+    try {
+        return parse(new StructuredFieldParser(value));
+    }
+    catch {
+        return undefined;
+    }
+}
+
+/**
+ * Parses the value of an HTTP header defined as a Structured Field Value (RFC 8941) of type Item.
+ * @param value The header's value.
+ * @returns The parsed item, or `undefined` if the value is missing or invalid.
+ * @example
+ * ```typescript
+ * parseStructuredItem('5; foo=bar');
+ * // --> { value: 5, params: { foo: { token: 'bar' } } }
+ * ```
+ */
+export function parseStructuredItem(value: string | null | undefined) {
+    return parseStructured(value, p => p.end(p.item()));
+}
+
+/**
+ * Parses the value of an HTTP header defined as a Structured Field Value (RFC 8941) of type List.
+ * @param value The header's value.
+ * @returns The parsed list, or `undefined` if the value is missing or invalid.
+ * @example
+ * ```typescript
+ * parseStructuredList('"a", (b c);x=1');
+ * // --> [
+ * //     { value: 'a', params: {} },
+ * //     { value: [{ value: { token: 'b' }, params: {} }, { value: { token: 'c' }, params: {} }], params: { x: 1 } } 
+ * // ]
+ * ```
+ */
+export function parseStructuredList(value: string | null | undefined) {
+    return parseStructured(value, p => p.list());
+}
+
+/**
+ * Parses the value of an HTTP header defined as a Structured Field Value (RFC 8941) of type Dictionary.
+ * @param value The header's value.
+ * @returns The parsed dictionary, or `undefined` if the value is missing or invalid.
+ * @example
+ * ```typescript
+ * parseStructuredDictionary('u=1, i');
+ * // --> { u: { value: 1, params: {} }, i: { value: true, params: {} } }
+ * ```
+ */
+export function parseStructuredDictionary(value: string | null | undefined) {
+    return parseStructured(value, p => p.dictionary());
+}
@@ -1,4 +1,6 @@
 export * from './DrFetch.js';
 export * from './headers.js';
+export * from './MemoryCacheStore.js';
+export * from './query.js';
 export * from './StatusCodes.js';
 export type * from './types.js';
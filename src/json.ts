@@ -0,0 +1,95 @@
+import type { JsonOptions } from "./types.js";
+
+/**
+ * Prefix of the strings that stand in for big integers while parsing or stringifying JSON.  The NUL character makes 
+ * collisions with real data practically impossible.
+ */
+const bigIntMarker = '\u0000bigint:';
+
+/**
+ * Pattern that matches ISO-8601 date and time strings that specify a time zone (or `Z`).
+ */
+const isoDateTime = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Pattern that matches a JSON number literal at a given position.
+ */
+const numberLiteral = /-?\d+(\.\d+)?([eE][+-]?\d+)?/y;
+
+/**
+ * Quotes the integer literals of the given JSON text that cannot be represented exactly as numbers, so they can be 
+ * revived as big integers.
+ * @param text JSON text.
+ * @returns The JSON text with the unsafe integer literals replaced with marker strings.
+ */
+function markBigInts(text: string) {
+    let result = '';
+    let last = 0;
+    for (let i = 0; i < text.length; ++i) {
+        const ch = text[i];
+        if (ch === '"') {
+            // Skip the string, including its escape sequences.
+            for (++i; i < text.length && text[i] !== '"'; ++i) {
+                if (text[i] === '\\') {
+                    ++i;
+                }
+            }
+        }
+        else if (ch === '-' || (ch >= '0' && ch <= '9')) {
+            numberLiteral.lastIndex = i;
+            const match = numberLiteral.exec(text);
+            if (!match) {
+                // Malformed JSON.  JSON.parse() reports it.
+                continue;
+            }
+            const literal = match[0];
+            if (!match[1] && !match[2] && !Number.isSafeInteger(Number(literal))) {
+                result += text.slice(last, i) + JSON.stringify(bigIntMarker + literal);
+                last = i + literal.length;
+            }
+            i += literal.length - 1;
+        }
+    }
+    return result + text.slice(last);
+}
+
+/**
+ * Parses the given JSON text according to the given options.
+ * @param text JSON text.
+ * @param options JSON options.
+ * @returns The parsed value.
+ */
+export function parseJson(text: string, options: JsonOptions | undefined) {
+    if (!options?.reviver && !options?.dates && !options?.bigInts) {
+        return JSON.parse(text);
+    }
+    return JSON.parse(options.bigInts ? markBigInts(text) : text, function (key, value) {
+        if (typeof value === 'string') {
+            if (options.bigInts && value.startsWith(bigIntMarker)) {
+                value = BigInt(value.slice(bigIntMarker.length));
+            }
+            else if (options.dates && isoDateTime.test(value)) {
+                value = new Date(value);
+            }
+        }
+        return options.reviver ? options.reviver.call(this, key, value) : value;
+    });
+}
+
+/**
+ * Stringifies the given value according to the given options.
+ * @param value The value to stringify.
+ * @param options JSON options.
+ * @returns The JSON text.
+ */
+export function stringifyJson(value: unknown, options: JsonOptions | undefined) {
+    if (!options?.replacer && !options?.bigInts) {
+        return JSON.stringify(value);
+    }
+    const json = JSON.stringify(value, function (key, v) {
+        v = options.replacer ? options.replacer.call(this, key, v) : v;
+        return options.bigInts && typeof v === 'bigint' ? `${bigIntMarker}${v}` : v;
+    });
+    // The NUL character is escaped by JSON.stringify().
+    return options.bigInts ? json.replace(/"\\u0000bigint:(-?\d+)"/g, '$1') : json;
+}
@@ -0,0 +1,54 @@
+import type { MatchablePromise } from "./types.js";
+
+/**
+ * Handler function, as seen by the dispatching code.
+ */
+type AnyHandler = (...args: any[]) => unknown;
+
+/**
+ * Result of a fetcher, as seen by the dispatching code.
+ */
+type DispatchedResult = {
+    aborted?: boolean;
+    failed?: boolean;
+    invalidBody?: boolean;
+    status?: number;
+    body?: unknown;
+};
+
+/**
+ * Calls the handler that corresponds to the given result.
+ * @param result The result to dispatch.
+ * @param handlers The result handlers.
+ * @returns The value returned by the handler, or `undefined` if no handler matches the result.
+ */
+function dispatch(result: DispatchedResult, handlers: Record<PropertyKey, AnyHandler | undefined>) {
+    const special = result.aborted ?
+        'aborted' :
+        result.failed ?
+            'failed' :
+            result.invalidBody ?
+                'invalidBody' :
+                undefined;
+    if (special) {
+        return (handlers[special] ?? handlers.default)?.(result);
+    }
+    const handler = result.status === undefined ? undefined : handlers[result.status];
+    if (handler) {
+        return handler(result.body, result);
+    }
+    return handlers.default?.(result);
+}
+
+/**
+ * Adds the `match()` method to the given promise.
+ * @param promise The promise that resolves to a fetcher's result.
+ * @returns The same promise, with the `match()` method.
+ */
+export function matchable<R>(promise: Promise<R>) {
+    return Object.assign(promise, {
+        match(handlers: Record<PropertyKey, AnyHandler | undefined>) {
+            return promise.then(result => dispatch(result as DispatchedResult, handlers));
+        },
+    }) as MatchablePromise<R>;
+}
@@ -0,0 +1,120 @@
+import type { FetchFnInit, FetchProgress, ProgressCallback } from "./types.js";
+
+/**
+ * Creates a stream that passes through the chunks of the given stream while reporting the number of bytes that have 
+ * gone through it.
+ * @param stream The stream to track.
+ * @param total The total number of bytes expected, or `undefined` if unknown.
+ * @param callback The function that receives the progress reports.
+ * @returns The tracked stream.
+ */
+function trackStream(stream: ReadableStream<Uint8Array>, total: number | undefined, callback: ProgressCallback) {
+    let loaded = 0;
+    const report = () => {
+        const progress: FetchProgress = {
+            loaded,
+            total: total ?? 0,
+            lengthComputable: total !== undefined,
+        };
+        callback(progress);
+    };
+    return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            loaded += chunk.byteLength;
+            controller.enqueue(chunk);
+            report();
+        },
+    }));
+}
+
+/**
+ * Parses the given `Content-Length` HTTP header value.
+ * @param value The header's value.
+ * @returns The number of bytes, or `undefined` if the value is missing or invalid.
+ */
+function parseContentLength(value: string | null) {
+    const length = value === null || !/^\s*\d+\s*$/.test(value) ? Number.NaN : Number(value);
+    return Number.isNaN(length) ? undefined : length;
+}
+
+/**
+ * Creates a response object whose body reports download progress as it is read.
+ * @param response The response to track.
+ * @param callback The function that receives the progress reports.
+ * @returns A response object with the same status and headers as the given one, but with a tracked body.
+ */
+export function trackResponseProgress(response: Response, callback: ProgressCallback) {
+    if (!response.body) {
+        return response;
+    }
+    // The content length of encoded bodies does not match the number of decoded bytes.
+    const encoding = response.headers.get('content-encoding');
+    const total = !encoding || encoding === 'identity' ?
+        parseContentLength(response.headers.get('content-length')) :
+        undefined;
+    return new Response(trackStream(response.body, total, callback), {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+    });
+}
+
+/**
+ * Measures the given request body without reading it.
+ * @param body The request body.
+ * @returns The number of bytes of the body, or `undefined` if it cannot be known in advance.
+ */
+function bodySize(body: BodyInit) {
+    if (typeof body === 'string' || body instanceof URLSearchParams) {
+        return new TextEncoder().encode(body.toString()).byteLength;
+    }
+    if (body instanceof Blob) {
+        return body.size;
+    }
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+        return body.byteLength;
+    }
+    return undefined;
+}
+
+/**
+ * Prepares the given `init` object for reporting upload progress.
+ * 
+ * Stream bodies are tracked as they are sent.  Any other body is sent as it is, because browsers only support stream 
+ * request bodies in limited scenarios, and its progress is reported coarsely:  Once when the HTTP request starts, and 
+ * once more when the response arrives.
+ * @param init The `init` object to track.
+ * @param callback The function that receives the progress reports.
+ * @returns The `init` object to send, and for bodies that are not streams, the function that reports their 
+ * completion.
+ */
+export function trackRequestProgress<TInit extends FetchFnInit>(init: TInit, callback: ProgressCallback): {
+    init: TInit;
+    complete?: () => void;
+} {
+    const body = init?.body;
+    if (body === null || body === undefined) {
+        return { init };
+    }
+    if (body instanceof ReadableStream) {
+        const total = parseContentLength(new Headers(init!.headers).get('content-length'));
+        return {
+            init: {
+                ...init,
+                body: trackStream(body, total, callback),
+                duplex: 'half',
+            },
+        };
+    }
+    const total = bodySize(body);
+    const report = (loaded: number) => callback({
+        loaded,
+        total: total ?? 0,
+        lengthComputable: total !== undefined,
+    });
+    report(0);
+    return {
+        init,
+        complete: () => report(total ?? 0),
+    };
+}
@@ -0,0 +1,80 @@
+import type { QueryInput, QuerySerializer, QuerySerializerOptions, QueryValue } from "./types.js";
+
+function encodeKey(path: string[]) {
+    const [first, ...rest] = path.map(encodeURIComponent);
+    return first + rest.map(p => `[${p}]`).join('');
+}
+
+type PrimitiveQueryValue = Exclude<QueryValue, any[] | object> | Date;
+
+function encodeValue(value: PrimitiveQueryValue) {
+    return encodeURIComponent(value instanceof Date ? value.toISOString() : String(value));
+}
+
+function isPrimitive(value: QueryValue): value is PrimitiveQueryValue {
+    return value === null || typeof value !== 'object' || value instanceof Date;
+}
+
+function* serializeEntry(path: string[], value: QueryValue, options: Required<QuerySerializerOptions>): Generator<string> {
+    if (value === null || value === undefined) {
+        return;
+    }
+    if (Array.isArray(value)) {
+        if (options.arrayFormat === 'comma' && value.every(isPrimitive)) {
+            const values = value.filter(v => v !== null && v !== undefined);
+            if (values.length) {
+                yield `${encodeKey(path)}=${values.map(v => encodeValue(v)).join(',')}`;
+            }
+            return;
+        }
+        for (let [index, item] of value.entries()) {
+            if (isPrimitive(item)) {
+                yield* serializeEntry(options.arrayFormat === 'brackets' ? [...path, ''] : path, item, options);
+            }
+            else {
+                // Objects inside arrays need an index to keep their properties together.
+                yield* serializeEntry([...path, String(index)], item, options);
+            }
+        }
+        return;
+    }
+    if (typeof value === 'object' && !(value instanceof Date)) {
+        for (let [key, v] of Object.entries(value)) {
+            yield* serializeEntry([...path, key], v, options);
+        }
+        return;
+    }
+    yield `${encodeKey(path)}=${encodeValue(value)}`;
+}
+
+/**
+ * Creates a query string serializer function that works with the given options.
+ * 
+ * The created function accepts POJOs, `URLSearchParams` objects and arrays of tuples.  Property values can be strings, 
+ * numbers, Booleans, big integers, dates (serialized in ISO-8601 format), arrays or nested objects.  Nested objects 
+ * are serialized with bracket notation (`filter[status]=active`).  Values that are `null` or `undefined` are skipped.
+ * @param options Optional serializer options.
+ * @returns A function that serializes query data into a query string (without the leading question mark).
+ * @example
+ * ```typescript
+ * const serialize = createQuerySerializer({ arrayFormat: 'comma' });
+ * serialize({ ids: [1, 2, 3], filter: { status: 'active' } });
+ * // --> ids=1,2,3&filter[status]=active
+ * ```
+ */
+export function createQuerySerializer(options?: QuerySerializerOptions): QuerySerializer {
+    const opts: Required<QuerySerializerOptions> = {
+        arrayFormat: 'repeat',
+        ...options,
+    };
+    return (query: QueryInput) => {
+        if (query instanceof URLSearchParams) {
+            return query.toString();
+        }
+        const parts: string[] = [];
+        for (let [key, value] of Array.isArray(query) ? query : Object.entries(query)) {
+            parts.push(...serializeEntry([key], value, opts));
+        }
+        return parts.join('&');
+    };
+}
@@ -0,0 +1,97 @@
+import type { FetchFnInit, FetchFnUrl, RetryOptions } from "./types.js";
+import { parseRetryAfter } from "./headers.js";
+
+/**
+ * Default retry options.  Used to complete the options given by the consumer.
+ */
+const defaultRetryOptions: Required<RetryOptions> = Object.freeze({
+    limit: 2,
+    statusCodes: [408, 429, 500, 502, 503, 504],
+    methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'],
+    networkErrors: true,
+    delay: 300,
+    factor: 2,
+    maxDelay: 30000,
+    jitter: true,
+    retryAfter: true,
+});
+
+/**
+ * Resolves the retry options that apply to an HTTP request by merging the fetcher's options with the per-call options.
+ * @param fetcherOptions The retry options configured in the fetcher object, if any.
+ * @param callOptions The retry options specified for the HTTP request, if any.
+ * @returns The complete set of retry options, or `undefined` if the HTTP request must not be retried.
+ */
+export function resolveRetryOptions(fetcherOptions: RetryOptions | undefined, callOptions: RetryOptions | false | undefined) {
+    if (callOptions === false || (!fetcherOptions && !callOptions)) {
+        return undefined;
+    }
+    const options: Record<string, unknown> = { ...defaultRetryOptions };
+    for (let source of [fetcherOptions, callOptions]) {
+        for (let [key, value] of Object.entries(source ?? {})) {
+            // Explicitly undefined options keep the value they already have.
+            if (value !== undefined) {
+                options[key] = value;
+            }
+        }
+    }
+    return options as Required<RetryOptions>;
+}
+
+/**
+ * Determines if the given HTTP request can be retried according to the given options.
+ * @param options Retry options in effect.
+ * @param url URL parameter for the data-fetching function.
+ * @param init Options for the data-fetching function.
+ * @returns `true` if the HTTP request can be retried, or `false` otherwise.
+ */
+export function isRetriable(options: Required<RetryOptions>, url: FetchFnUrl, init?: FetchFnInit) {
+    const method = (init?.method ?? (url instanceof Request ? url.method : 'GET')).toUpperCase();
+    // Streamed bodies, like the bodies of Request objects, can only be read once, so they cannot be sent again.
+    return options.limit > 0 &&
+        options.methods.some(m => m.toUpperCase() === method) &&
+        !(init?.body instanceof ReadableStream) &&
+        !(url instanceof Request && url.body !== null && init?.body === undefined);
+}
+
+/**
+ * Calculates the amount of time to wait before the next attempt.
+ * @param attempt Zero-based number of the attempt that just failed.
+ * @param options Retry options in effect.
+ * @param retryAfter Value of the `Retry-After` header of the failed attempt's response, if any.
+ * @returns The number of milliseconds to wait, or `undefined` if the HTTP request should not be retried.
+ */
+export function computeRetryDelay(attempt: number, options: Required<RetryOptions>, retryAfter?: string | null) {
+    if (options.retryAfter) {
+        const serverDelay = parseRetryAfter(retryAfter);
+        if (serverDelay !== undefined) {
+            return serverDelay > options.maxDelay ? undefined : serverDelay;
+        }
+    }
+    const delay = Math.min(options.delay * Math.pow(options.factor, attempt), options.maxDelay);
+    return options.jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Waits the specified amount of time, or until the given signal is aborted.
+ * @param ms Number of milliseconds to wait.
+ * @param signal Optional abort signal that cancels the wait.
+ * @returns A promise that resolves after the specified time, or rejects with the signal's abort reason.
+ */
+export function wait(ms: number, signal?: AbortSignal | null) {
+    return new Promise<void>((rs, rj) => {
+        if (signal?.aborted) {
+            rj(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            rj(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            rs();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,80 @@
+import type { BodySerializerFn } from "./types.js";
+import { createQuerySerializer } from "./query.js";
+
+/**
+ * Appends the given value to the given `FormData` object.  Nested objects use bracket notation, like the query string 
+ * serializer does, and arrays repeat the field name.
+ * @param formData The `FormData` object that receives the value.
+ * @param name The field name.
+ * @param value The value to append.
+ */
+function appendFormValue(formData: FormData, name: string, value: unknown) {
+    if (value === null || value === undefined) {
+        return;
+    }
+    if (value instanceof Blob) {
+        formData.append(name, value);
+    }
+    else if (value instanceof Date) {
+        formData.append(name, value.toISOString());
+    }
+    else if (Array.isArray(value)) {
+        for (let item of value) {
+            appendFormValue(formData, name, item);
+        }
+    }
+    else if (typeof value === 'object') {
+        for (let [key, v] of Object.entries(value)) {
+            appendFormValue(formData, `${name}[${key}]`, v);
+        }
+    }
+    else {
+        formData.append(name, String(value));
+    }
+}
+
+/**
+ * Converts the given POJO into a `FormData` object.  `Blob` (and `File`) values are appended as files.
+ * @param body The POJO to convert.
+ * @returns The new `FormData` object.
+ */
+function toFormData(body: Record<string, unknown>) {
+    const formData = new FormData();
+    for (let [name, value] of Object.entries(body)) {
+        appendFormValue(formData, name, value);
+    }
+    return formData;
+}
+
+/**
+ * Stock body serializers, by media type.  The JSON serializer is not here because it depends on the fetcher's JSON 
+ * options.
+ */
+export const stockSerializers = new Map<string, BodySerializerFn>([
+    ['application/x-www-form-urlencoded', createQuerySerializer()],
+    ['multipart/form-data', toFormData],
+]);
+
+/**
+ * Determines if the given body can be given to `fetch()` as it is.
+ * @param body Body under test.
+ * @returns `true` if the body is natively supported by `fetch()`, or `false` otherwise.
+ */
+export function isNativeBody(body: unknown): body is BodyInit {
+    return typeof body === 'string' ||
+        body instanceof Blob ||
+        body instanceof ArrayBuffer ||
+        ArrayBuffer.isView(body) ||
+        body instanceof FormData ||
+        body instanceof URLSearchParams ||
+        body instanceof ReadableStream;
+}
+
+/**
+ * Obtains the media type of the given `Content-Type` HTTP header value, without parameters and in lower case.
+ * @param contentType The header's value.
+ * @returns The media type.
+ */
+export function mediaTypeOf(contentType: string) {
+    return contentType.split(';')[0].trim().toLowerCase();
+}
@@ -0,0 +1,120 @@
+import type { JsonOptions, ServerSentEvent } from "./types.js";
+import { parseJson } from "./json.js";
+
+/**
+ * Reads the body of the given response line by line.
+ * @param response The response whose body is read.
+ * @param signal Optional abort signal that stops reading.
+ * @returns An async generator that yields the lines of the body, without line terminators.
+ */
+async function* readLines(response: Response, signal?: AbortSignal | null) {
+    if (!response.body) {
+        return;
+    }
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    const onAbort = () => {
+        reader.cancel(signal!.reason).catch(() => { });
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let buffer = '';
+    try {
+        while (!signal?.aborted) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            buffer += value;
+            // A carriage return at the very end might be followed by a line feed in the next chunk.
+            const lines = buffer.split(/\r\n|\n|\r(?!$)/);
+            buffer = lines.pop()!;
+            yield* lines;
+        }
+        buffer = buffer.replace(/\r$/, '');
+        if (buffer && !signal?.aborted) {
+            yield buffer;
+        }
+    }
+    catch (err: unknown) {
+        // Aborting is the way to stop the stream, so it is not an error.
+        if (!signal?.aborted) {
+            throw err;
+        }
+    }
+    finally {
+        signal?.removeEventListener('abort', onAbort);
+        reader.cancel().catch(() => { });
+    }
+}
+
+/**
+ * Creates an async iterable object that yields the parsed JSON values of a newline-delimited JSON (NDJSON) body. 
+ * Blank lines are skipped.
+ * @param response The response whose body is read.
+ * @param signal Optional abort signal that ends the iteration.
+ * @param jsonOptions Optional JSON options used to parse every line.
+ * @returns The async iterable object.
+ */
+export async function* ndjsonStream<T>(
+    response: Response,
+    signal?: AbortSignal | null,
+    jsonOptions?: JsonOptions
+): AsyncGenerator<T> {
+    for await (let line of readLines(response, signal)) {
+        if (line.trim()) {
+            yield parseJson(line, jsonOptions);
+        }
+    }
+}
+
+/**
+ * Creates an async iterable object that yields the events of a Server-Sent Events (`text/event-stream`) body, parsed 
+ * according to the [HTML specification](https://html.spec.whatwg.org/multipage/server-sent-events.html).
+ * @param response The response whose body is read.
+ * @param signal Optional abort signal that ends the iteration.
+ * @returns The async iterable object.
+ */
+export async function* sseStream(response: Response, signal?: AbortSignal | null): AsyncGenerator<ServerSentEvent> {
+    let data: string[] = [];
+    let event = '';
+    let lastEventId: string | undefined;
+    let retry: number | undefined;
+    for await (let line of readLines(response, signal)) {
+        if (line === '') {
+            if (data.length) {
+                yield {
+                    event: event || 'message',
+                    data: data.join('\n'),
+                    id: lastEventId,
+                    retry,
+                };
+            }
+            data = [];
+            event = '';
+            continue;
+        }
+        if (line.startsWith(':')) {
+            continue;
+        }
+        const colonIndex = line.indexOf(':');
+        const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+        const value = colonIndex === -1 ? '' : line.slice(colonIndex + 1).replace(/^ /, '');
+        switch (field) {
+            case 'data':
+                data.push(value);
+                break;
+            case 'event':
+                event = value;
+                break;
+            case 'id':
+                if (!value.includes('\0')) {
+                    lastEventId = value;
+                }
+                break;
+            case 'retry':
+                if (/^\d+$/.test(value)) {
+                    retry = Number(value);
+                }
+                break;
+        }
+    }
+}
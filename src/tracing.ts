@@ -0,0 +1,44 @@
+import type { TracingSpan } from "./types.js";
+
+/**
+ * Kind of the spans started by fetchers (OpenTelemetry's `SpanKind.CLIENT`).
+ */
+export const clientSpanKind = 2;
+
+/**
+ * Status code of failed spans (OpenTelemetry's `SpanStatusCode.ERROR`).
+ */
+export const errorStatusCode = 2;
+
+/**
+ * Names of the span attributes set by fetchers.  Most of them follow OpenTelemetry's semantic conventions for HTTP 
+ * client spans.
+ */
+export const spanAttributes = Object.freeze({
+    method: 'http.request.method',
+    url: 'url.full',
+    statusCode: 'http.response.status_code',
+    resendCount: 'http.request.resend_count',
+    errorType: 'error.type',
+    bodyProcessor: 'dr_fetch.body_processor',
+    aborted: 'dr_fetch.aborted',
+    timedOut: 'dr_fetch.timed_out',
+    fromCache: 'dr_fetch.from_cache',
+});
+
+/**
+ * Builds the W3C Trace Context HTTP headers of the given span.
+ * @param span The span whose context is propagated.
+ * @returns The `traceparent` header and, if the span has a trace state, the `tracestate` header.
+ */
+export function traceContextHeaders(span: TracingSpan) {
+    const context = span.spanContext();
+    const headers: [string, string][] = [
+        ['traceparent', `00-${context.traceId}-${context.spanId}-${(context.traceFlags & 0xff).toString(16).padStart(2, '0')}`],
+    ];
+    const traceState = context.traceState?.serialize();
+    if (traceState) {
+        headers.push(['tracestate', traceState]);
+    }
+    return headers;
+}
@@ -1,8 +1,19 @@
+/**
+ * List of all possible informational status codes (1xx).
+ */
+export type InformationalStatusCode = 100 | 101 | 102 | 103;
+
 /**
  * List of all possible OK status codes (2xx).
  */
 export type OkStatusCode = 200 | 201 | 202 | 203 | 204 | 205 | 206 | 207 | 208 | 226;
 
+/**
+ * List of all possible redirection status codes (3xx).  These are only seen when the `redirect` option of the fetch 
+ * call is `'manual'`, or when the response is `304 Not Modified`.
+ */
+export type RedirectStatusCode = 300 | 301 | 302 | 303 | 304 | 305 | 307 | 308;
+
 /**
  * List of all possible client-sided error status codes (4xx).
  */
@@ -15,12 +26,17 @@ export type ClientErrorStatusCode = 400 | 401 | 403 | 404 | 405 | 406 | 407 | 40
 export type ServerErrorStatusCode = 500 | 501 | 502 | 503 | 504 | 505 | 506 | 507 | 508 | 510 | 511;
 
 /**
- * List of all possible status codes (2xx + 4xx + 5xx).
+ * List of all possible status codes (1xx + 2xx + 3xx + 4xx + 5xx).
  */
-export type StatusCode = OkStatusCode | ClientErrorStatusCode | ServerErrorStatusCode;
+export type StatusCode =
+    InformationalStatusCode |
+    OkStatusCode |
+    RedirectStatusCode |
+    ClientErrorStatusCode |
+    ServerErrorStatusCode;
 
 /**
- * List of all possible non-OK status codes (4xx + 5xx).
+ * List of all possible non-OK status codes (1xx + 3xx + 4xx + 5xx).
  */
 export type NonOkStatusCode = Exclude<StatusCode, OkStatusCode>;
 
@@ -29,6 +45,116 @@ export type NonOkStatusCode = Exclude<StatusCode, OkStatusCode>;
  */
 export type BodyParserFn<T> = (response: Response) => Promise<T>;
 
+/**
+ * Type of streamed bodies, like the ones produced by the stock NDJSON and Server-Sent Events body processors.  Use it to 
+ * type the body in `DrFetch.for<>()`, as in `for<200, Stream<MyItem>>()`.
+ */
+export type Stream<T> = AsyncIterable<T>;
+
+/**
+ * Defines the events yielded by the stock Server-Sent Events (`text/event-stream`) body processor.
+ */
+export type ServerSentEvent = {
+    /**
+     * The event type.  It is `'message'` unless the server specified a different one.
+     */
+    event: string;
+    /**
+     * The event data.  Multiple data lines are joined with line feeds.
+     */
+    data: string;
+    /**
+     * The last event ID specified by the server, if any.
+     */
+    id?: string;
+    /**
+     * The reconnection time (in milliseconds) last specified by the server, if any.
+     */
+    retry?: number;
+};
+
+/**
+ * Defines the stock body parsers given to custom body processors.
+ */
+export type StockParsers = {
+    /**
+     * Parses the body as JSON.
+     */
+    json: BodyParserFn<any>;
+    /**
+     * Reads the body as text.
+     */
+    text: BodyParserFn<string>;
+    /**
+     * Parses the body as newline-delimited JSON.  The resulting stream ends when the HTTP request is aborted.
+     */
+    ndjson: BodyParserFn<Stream<any>>;
+    /**
+     * Parses the body as a stream of Server-Sent Events.  The resulting stream ends when the HTTP request is aborted.
+     */
+    sse: BodyParserFn<Stream<ServerSentEvent>>;
+    /**
+     * Reads the body as a `Blob` object.
+     */
+    blob: BodyParserFn<Blob>;
+    /**
+     * Reads the body as an `ArrayBuffer` object.
+     */
+    arrayBuffer: BodyParserFn<ArrayBuffer>;
+    /**
+     * Parses the body as form data (`multipart/form-data` or `application/x-www-form-urlencoded`).
+     */
+    formData: BodyParserFn<FormData>;
+};
+
+/**
+ * Defines how the body of a response is read when the content type is not to be used to determine it.
+ * 
+ * + `'json'`, `'text'`, `'blob'`, `'arrayBuffer'` and `'formData'`:  The body is read with the stock parser of the same 
+ * name.
+ * + `'stream'`:  The body is the response's `ReadableStream` object, unread.
+ * + `'raw'`:  The body is the response object itself, unread.
+ */
+export type ResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer' | 'formData' | 'stream' | 'raw';
+
+/**
+ * Options that control how JSON bodies are parsed and stringified.
+ */
+export type JsonOptions = {
+    /**
+     * Function that transforms the values parsed out of JSON bodies.  It works like the `reviver` parameter of 
+     * `JSON.parse()`, and it receives the values already transformed by the `dates` and `bigInts` options.
+     */
+    reviver?: (this: any, key: string, value: any) => any;
+    /**
+     * Function that transforms the values of the bodies stringified as JSON.  It works like the `replacer` parameter 
+     * of `JSON.stringify()`.
+     */
+    replacer?: (this: any, key: string, value: any) => any;
+    /**
+     * Set to `true` to parse the ISO-8601 date and time strings that specify a time zone (like 
+     * `'2024-01-31T10:00:00Z'`) as `Date` objects.  The default is `false`.
+     */
+    dates?: boolean;
+    /**
+     * Set to `true` to parse the integers that cannot be represented exactly as numbers as `BigInt` values, and to 
+     * stringify `BigInt` values as JSON numbers.  The default is `false`.
+     */
+    bigInts?: boolean;
+};
+
+/**
+ * Type of the functions that serialize the bodies given to the shortcut functions.  They receive the body data and 
+ * return a body the data-fetching function can send.
+ */
+export type BodySerializerFn = (body: any) => BodyInit;
+
+/**
+ * Media types of the bodies the stock body serializers produce.  Any other media type with a registered serializer 
+ * may be used as well.
+ */
+export type BodyType = 'application/json' | 'application/x-www-form-urlencoded' | 'multipart/form-data' | (string & {});
+
 /**
  * Type that builds a single status code's response.
  */
@@ -53,6 +179,30 @@ type CoreFetchResult<TStatus extends number, TBody> = {
      * The HTTP response headers.
      */
     headers: Headers;
+    /**
+     * The final URL of the response, after following any redirections.  It is an empty string when the 
+     * data-fetching function produces responses without URL, like responses created with `new Response()`.
+     */
+    url: string;
+    /**
+     * Indicates whether the response is the result of following one or more redirections.
+     */
+    redirected: boolean;
+    /**
+     * Indicates whether the body failed validation.  Only present (as `true`) in results whose body failed the 
+     * validation of the schema given to `DrFetch.for()`.
+     */
+    invalidBody?: false;
+    /**
+     * Indicates whether the result was produced out of the fetcher's HTTP cache.  Only present (as `true`) in results 
+     * served from the cache, including the ones revalidated with a `304 Not Modified` response.
+     */
+    fromCache?: boolean;
+    /**
+     * Indicates whether the HTTP request failed.  Only present (as `true`) in the results of safe fetchers that could 
+     * not complete the HTTP request or process its body.
+     */
+    failed?: false;
 } & (TBody extends undefined ? {} : {
     /**
      * The parsed body obtained from the response.
@@ -68,6 +218,10 @@ export type AbortedFetchResult = {
      * Indicates whether the request was aborted.
      */
     aborted: true;
+    /**
+     * Indicates whether the request was aborted because it timed out.
+     */
+    timedOut: false;
     /**
      * The error that caused the request to be aborted.  Useful to examine the `cause` property of the error to 
      * determine the reason for the abortion, if your implementation needs this.
@@ -75,6 +229,71 @@ export type AbortedFetchResult = {
     error: DOMException;
 }
 
+/**
+ * Type that defines the result of a fetch request that was aborted because it exceeded its allotted time.
+ */
+export type TimedOutFetchResult = {
+    /**
+     * Indicates whether the request was aborted.
+     */
+    aborted: true;
+    /**
+     * Indicates whether the request was aborted because it timed out.
+     */
+    timedOut: true;
+    /**
+     * The error that caused the request to be aborted.  Its name is `'TimeoutError'`.
+     */
+    error: DOMException;
+}
+
+/**
+ * Defines the kinds of failures reported by safe fetchers.
+ * 
+ * + `'network'`:  The data-fetching function threw (or rejected), usually because of a network error. 
+ * + `'parse'`:  The body processor threw, like when a JSON body is malformed.
+ * + `'no-processor'`:  No body processor matches the response's content type.
+ * + `'no-content-type'`:  The response has a body, but no `Content-Type` header.
+ */
+export type FetchFailureKind = 'network' | 'parse' | 'no-processor' | 'no-content-type';
+
+/**
+ * Type that defines the result of a fetch request that failed, as reported by safe fetchers.
+ */
+export type FailedFetchResult = {
+    /**
+     * Indicates whether the request was aborted.
+     */
+    aborted: false;
+    /**
+     * Indicates whether the HTTP request failed.
+     */
+    failed: true;
+    /**
+     * The kind of failure.
+     */
+    kind: FetchFailureKind;
+    /**
+     * The error that caused the failure.
+     */
+    error: unknown;
+};
+
+/**
+ * Type that defines the result of a fetch request whose body did not pass the validation of the schema associated to 
+ * the response's status code.
+ */
+export type InvalidBodyFetchResult<TStatus extends number> = Omit<CoreFetchResult<TStatus, unknown>, 'invalidBody'> & {
+    /**
+     * Indicates whether the body failed validation.
+     */
+    invalidBody: true;
+    /**
+     * The list of issues reported by the schema.
+     */
+    issues: ReadonlyArray<StandardSchemaIssue>;
+};
+
 /**
  * Type that builds DrFetch's final result object's type.
  */
@@ -85,11 +304,302 @@ export type FetchResult<T, TStatus extends number, TBody = undefined> =
         T | CoreFetchResult<TStatus, TBody>
     ) extends infer R ? R : never;
 
+/**
+ * Type that extracts the status codes that have been associated to a body type in the given result type.
+ */
+export type DeclaredStatusCode<T> = T extends { status: infer S extends number; } ? S : never;
+
+/**
+ * Type that adds to the given result type one result per status code in `TStatusCode` that is not already part of it, 
+ * all of them with the given body type.
+ */
+export type OthersFetchResult<T, TStatusCode extends number, TBody = undefined> =
+    (unknown extends T ? never : T) |
+    (Exclude<TStatusCode, DeclaredStatusCode<T>> extends infer S extends number ?
+        S extends number ? CoreFetchResult<S, TBody> : never :
+        never);
+
+/**
+ * Type that builds the type of the results of a fetcher, which includes the aborted and failed results when the fetcher 
+ * is in abortable or safe mode.
+ */
+export type FetcherResult<T, Abortable extends boolean, Safe extends boolean> =
+    (Abortable extends true ? AbortedFetchResult | TimedOutFetchResult : never) |
+    (Safe extends true ? FailedFetchResult : never) |
+    T;
+
+/**
+ * Type that extracts the successful results (OK status code and, if validated, valid body) out of the given result 
+ * type.
+ */
+export type OkFetchResult<T> = unknown extends T ?
+    CoreFetchResult<OkStatusCode, unknown> :
+    Exclude<Extract<T, { ok: true; }>, { invalidBody: true; }>;
+
+/**
+ * Type that extracts the members of the given result type whose status code type includes the given status code.
+ */
+type ResultOfStatus<R, S> = R extends { status: infer RS; } ? S extends RS ? R : never : never;
+
+/**
+ * Type that extracts the body type of the given result type.
+ */
+type BodyOf<R> = R extends { body: infer B; } ? B : undefined;
+
+/**
+ * Type that extracts the results of the given result type that carry a status code and a valid body.
+ */
+type StatusResult<R> = Exclude<R, AbortedFetchResult | TimedOutFetchResult | FailedFetchResult | { invalidBody: true; }>;
+
+/**
+ * Type that builds the handlers of the status codes found in the given result type.
+ */
+type StatusHandlers<R> = {
+    [S in DeclaredStatusCode<StatusResult<R>>]: (
+        body: BodyOf<ResultOfStatus<StatusResult<R>, S>>,
+        result: ResultOfStatus<StatusResult<R>, S>
+    ) => unknown;
+};
+
+/**
+ * Type that builds the handlers of the aborted, failed and invalid-body results found in the given result type.
+ */
+type SpecialHandlers<R> =
+    ([Extract<R, { aborted: true; }>] extends [never] ? {} : {
+        /**
+         * Handles aborted (and timed-out) results.
+         */
+        aborted: (result: Extract<R, { aborted: true; }>) => unknown;
+    }) &
+    ([Extract<R, { failed: true; }>] extends [never] ? {} : {
+        /**
+         * Handles the failed results of safe fetchers.
+         */
+        failed: (result: Extract<R, { failed: true; }>) => unknown;
+    }) &
+    ([Extract<R, { invalidBody: true; }>] extends [never] ? {} : {
+        /**
+         * Handles the results whose body failed the validation of the schema given to `DrFetch.for()`.
+         */
+        invalidBody: (result: Extract<R, { invalidBody: true; }>) => unknown;
+    });
+
+/**
+ * Type that defines the handlers accepted by the `match()` method of the promises returned by fetchers.
+ * 
+ * There must be one handler per status code declared with `DrFetch.for()`, plus the `aborted`, `failed` and 
+ * `invalidBody` handlers if the fetcher can produce such results.  Handlers can only be omitted if the `default` 
+ * handler is given.
+ */
+export type MatchHandlers<R> = unknown extends R ?
+    {
+        [status: number]: (body: unknown, result: unknown) => unknown;
+        aborted?: (result: AbortedFetchResult | TimedOutFetchResult) => unknown;
+        failed?: (result: FailedFetchResult) => unknown;
+        default: (result: unknown) => unknown;
+    } :
+    (StatusHandlers<R> & SpecialHandlers<R> & {
+        /**
+         * Handles the results that no other handler handles.
+         */
+        default?: (result: R) => unknown;
+    }) |
+    (Partial<StatusHandlers<R> & SpecialHandlers<R>> & {
+        /**
+         * Handles the results that no other handler handles.
+         */
+        default: (result: R) => unknown;
+    });
+
+/**
+ * Type that builds the union of the (awaited) return types of the given handlers.  Unless the `default` handler is 
+ * given, it includes `undefined`, which is what results without a handler (like those of undeclared status codes) 
+ * produce.
+ */
+export type MatchResult<THandlers> = {
+    [K in keyof THandlers]: THandlers[K] extends (...args: any[]) => infer X ? Awaited<X> : never;
+}[keyof THandlers] | ('default' extends keyof THandlers ? never : undefined);
+
+/**
+ * Type of the promises returned by fetchers, which can dispatch their result to handlers with `match()`.
+ */
+export type MatchablePromise<R> = Promise<R> & {
+    /**
+     * Waits for the result and calls the handler that corresponds to it.  Status code handlers receive the body and 
+     * the result; all other handlers receive the result.
+     * @param handlers The result handlers, keyed by status code, plus `aborted`, `failed`, `invalidBody` and 
+     * `default`.
+     * @returns A promise that resolves to the value returned by the handler that was called, or to `undefined` if no 
+     * handler matches the result.
+     */
+    match<THandlers extends MatchHandlers<R>>(handlers: THandlers): Promise<MatchResult<THandlers>>;
+};
+
+/**
+ * Options that control how `DrFetch.paginate()` iterates the pages of a paginated resource.
+ */
+export type PaginationOptions<TPage, TInit, TItem = unknown> = {
+    /**
+     * Options for the data-fetching function.  The `params` and `query` options only apply to the first page, because 
+     * the URLs of the next pages are used as they are.
+     */
+    init?: TInit;
+    /**
+     * Function that obtains the URL of the next page out of the given page, or returns `null` or `undefined` if there 
+     * are no more pages.  If not specified, the URL is taken from the `Link` HTTP header with `rel="next"`.
+     */
+    getNext?: (page: TPage) => FetchFnUrl | null | undefined;
+    /**
+     * Function that obtains the items contained in the given page.  When specified, the iteration yields items 
+     * instead of pages.
+     */
+    getItems?: (page: TPage) => Iterable<TItem>;
+    /**
+     * The maximum number of pages to fetch.  The default is no limit.
+     */
+    maxPages?: number;
+};
+
+/**
+ * Minimal definition of a [Standard Schema](https://standardschema.dev) (v1) validator.  Validation libraries like 
+ * zod, valibot or arktype produce schemas that comply with this definition.
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+    readonly '~standard': {
+        /**
+         * The version of the Standard Schema specification.
+         */
+        readonly version: 1;
+        /**
+         * The name of the library that produced the schema.
+         */
+        readonly vendor: string;
+        /**
+         * Validates the given value.
+         */
+        readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+        /**
+         * Inferred types associated with the schema.
+         */
+        readonly types?: {
+            readonly input: Input;
+            readonly output: Output;
+        } | undefined;
+    };
+};
+
+/**
+ * Result of a Standard Schema validation.
+ */
+export type StandardSchemaResult<Output> = {
+    readonly value: Output;
+    readonly issues?: undefined;
+} | {
+    readonly issues: ReadonlyArray<StandardSchemaIssue>;
+};
+
+/**
+ * Issue reported by a Standard Schema validation.
+ */
+export type StandardSchemaIssue = {
+    /**
+     * The error message of the issue.
+     */
+    readonly message: string;
+    /**
+     * The path to the offending value, if any.
+     */
+    readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey; }> | undefined;
+};
+
+/**
+ * Obtains the output type of a Standard Schema validator.
+ */
+export type InferSchemaOutput<TSchema extends StandardSchemaV1> = NonNullable<TSchema['~standard']['types']>['output'];
+
 /**
  * Type of the fetch function's URL parameter.
  */
 export type FetchFnUrl = Parameters<typeof fetch>[0];
 
+/**
+ * Possible types of the values of URL template parameters.
+ */
+export type UrlParamValue = string | number | boolean | bigint;
+
+type UrlParamNameStart = 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 'i' | 'j' | 'k' | 'l' | 'm' | 'n' | 'o' | 'p' | 
+    'q' | 'r' | 's' | 't' | 'u' | 'v' | 'w' | 'x' | 'y' | 'z' | Uppercase<'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 
+    'i' | 'j' | 'k' | 'l' | 'm' | 'n' | 'o' | 'p' | 'q' | 'r' | 's' | 't' | 'u' | 'v' | 'w' | 'x' | 'y' | 'z'> | '_';
+
+type UrlParamNameChar = UrlParamNameStart | '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+type TakeUrlParamName<TText extends string, TName extends string> =
+    TText extends `${infer C}${infer Rest}` ?
+    C extends UrlParamNameChar ? TakeUrlParamName<Rest, `${TName}${C}`> : TName :
+    TName;
+
+/**
+ * Obtains the names of the parameters (written as `:name`) found in the given URL template.
+ */
+export type UrlParamNames<TUrl extends string> =
+    TUrl extends `${string}:${infer After}` ?
+    (After extends `${infer C}${infer Rest}` ? C extends UrlParamNameStart ? TakeUrlParamName<Rest, C> : never : never) |
+    UrlParamNames<After> :
+    never;
+
+/**
+ * Type of the `params` object required by the given URL template.
+ */
+export type UrlParams<TUrl extends string> = Record<UrlParamNames<TUrl>, UrlParamValue>;
+
+/**
+ * Defines the `init` parameter of the shortcut functions that don't accept a body.  The parameter becomes required 
+ * whenever the URL template has parameters.
+ */
+export type ShortcutArgs<TInit, TUrl extends string> = [UrlParamNames<TUrl>] extends [never] ?
+    [init?: TInit] :
+    [init: TInit & { params: UrlParams<TUrl>; }];
+
+/**
+ * Defines the `body` and `init` parameters of the shortcut functions that accept a body.  The parameters become 
+ * required whenever the URL template has parameters.
+ */
+export type ShortcutWithBodyArgs<TInit, TUrl extends string> = [UrlParamNames<TUrl>] extends [never] ?
+    [body?: BodyInit | null | Record<string, any>, init?: TInit] :
+    [body: BodyInit | null | Record<string, any> | undefined, init: TInit & { params: UrlParams<TUrl>; }];
+
+/**
+ * Possible types of the values that can be serialized into a query string.  Values that are `null` or `undefined` are 
+ * skipped.
+ */
+export type QueryValue = string | number | boolean | bigint | Date | null | undefined | QueryValue[] | {
+    [key: string]: QueryValue;
+};
+
+/**
+ * Possible data constructs that can be used to specify the query string of an HTTP request.
+ */
+export type QueryInput = Record<string, QueryValue> | URLSearchParams | [string, QueryValue][];
+
+/**
+ * Type of the functions that serialize query data into a query string (without the leading question mark).
+ */
+export type QuerySerializer = (query: QueryInput) => string;
+
+/**
+ * Options for the stock query string serializer.
+ */
+export type QuerySerializerOptions = {
+    /**
+     * Determines how arrays are serialized.  The default is `'repeat'`.
+     * 
+     * + `'repeat'`:  `ids=1&ids=2`
+     * + `'comma'`:  `ids=1,2`
+     * + `'brackets'`:  `ids[]=1&ids[]=2`
+     */
+    arrayFormat?: 'repeat' | 'comma' | 'brackets';
+};
+
 /**
  * Possible types of keys accepted by the `autoAbort` option.
  */
@@ -116,36 +626,628 @@ export type FetchFnInit = Parameters<typeof fetch>[1] & {
          */
         delay?: number;
     };
-};
-
-/**
- * Type of the stock fetch function.
- */
-export type FetchFn<TInit extends FetchFnInit = FetchFnInit> = (url: FetchFnUrl, init?: TInit) => Promise<Response>;
-
-/**
- * Fetcher cloning options.
- */
-export type CloneOptions<BodyTyping extends boolean | undefined, Abortable extends boolean | undefined> = {
     /**
-     * Determines whether to preserve the body typing of the original fetcher.  The default is `true`.
+     * Specifies the values of the parameters of the URL template.  Every `:name` placeholder in the URL is replaced 
+     * with the URL-encoded value of the parameter with the same name.
      */
-    preserveTyping?: BodyTyping;
+    params?: Record<string, UrlParamValue>;
     /**
-     * Defines which data-fetching function the clone will use.
+     * Specifies the query data of the HTTP request.  It is serialized with the fetcher's query serializer and merged 
+     * with any query string the URL may already have.
+     */
+    query?: QueryInput;
+    /**
+     * Specifies the amount of time (in milliseconds) the HTTP request is allowed to take before it is aborted.  This 
+     * value overrides the one configured in the fetcher object via `withTimeout()`.
      * 
-     * Pass `false` if you want the clone to use the standard `fetch()` function, or leave it `undefined` to inherit 
-     * the fetch function of the parent.
+     * Pass `false` to disable the fetcher's timeout for this HTTP request.
      */
-    fetchFn?: FetchFn | false;
+    timeout?: number | false;
     /**
-     * Determines if body processors are included in the clone.  The default is `true`.
+     * Specifies the retry policy for this particular HTTP request.  The options given here are merged with the ones
+     * configured in the fetcher object via `withRetry()`.
+     *
+     * Pass `false` to disable retrying for this HTTP request.
      */
-    includeProcessors?: boolean;
+    retry?: RetryOptions | false;
+    /**
+     * Set to `false` to prevent this HTTP request from sharing an identical in-flight HTTP request, even if the fetcher 
+     * was configured with `withDedupe()`.
+     */
+    dedupe?: false;
+    /**
+     * Set to `false` to send this HTTP request without the `Authorization` HTTP header and without token refreshes, 
+     * even if the fetcher was configured with `withAuth()`.  Useful for the HTTP request that refreshes the token.
+     */
+    auth?: false;
+    /**
+     * Specifies a function that is called as the request body is sent.
+     * 
+     * Stream bodies report their progress as they are sent, and only report a total size if the `Content-Length` HTTP 
+     * header is specified.  Any other body is sent as it is, and reports its progress when the HTTP request starts and 
+     * when the response arrives.
+     */
+    onUploadProgress?: ProgressCallback;
+    /**
+     * Specifies a function that is called as the response body is received.  It works with the stock and the custom 
+     * body processors.
+     */
+    onDownloadProgress?: ProgressCallback;
+    /**
+     * Specifies the media type of the body given to the shortcut functions, which selects the body serializer to use.  
+     * If not specified, the serializer is selected using the `Content-Type` HTTP header, if present.
+     * 
+     * The `Content-Type` HTTP header is set to this value unless it is explicitly specified, or the serialized body is 
+     * a `FormData` object (whose content type is generated by the data-fetching function).
+     */
+    bodyType?: BodyType;
+    /**
+     * Specifies how to read the response body, bypassing the content type detection and the body processors.
+     */
+    responseType?: ResponseType;
+};
+
+/**
+ * Defines the progress reports given to the `onUploadProgress` and `onDownloadProgress` callbacks.
+ */
+export type FetchProgress = {
+    /**
+     * The number of bytes transferred so far.
+     */
+    loaded: number;
+    /**
+     * The total number of bytes to transfer, or zero if unknown.
+     */
+    total: number;
+    /**
+     * Indicates whether the total number of bytes is known.
+     */
+    lengthComputable: boolean;
+};
+
+/**
+ * Type of the functions that receive progress reports.
+ */
+export type ProgressCallback = (progress: FetchProgress) => void;
+
+/**
+ * Options that control how identical in-flight HTTP requests are deduplicated.
+ */
+export type DedupeOptions = {
+    /**
+     * List of HTTP methods whose requests can be deduplicated.  The default is `['GET', 'HEAD']`.
+     */
+    methods?: string[];
+    /**
+     * List of HTTP request headers whose values are part of the deduplication key, along with the HTTP method and the 
+     * URL.  The default is `['accept', 'authorization']`.
+     */
+    headers?: string[];
+};
+
+/**
+ * Options that control how failed HTTP requests are retried.
+ */
+export type RetryOptions = {
+    /**
+     * Maximum number of retries after the initial attempt.  The default is `2`.
+     */
+    limit?: number;
+    /**
+     * List of HTTP status codes that trigger a retry.  The default is `[408, 429, 500, 502, 503, 504]`.
+     */
+    statusCodes?: number[];
+    /**
+     * List of HTTP methods that can be retried.  The default is the list of idempotent methods:  `GET`, `HEAD`,
+     * `OPTIONS`, `PUT`, `DELETE` and `TRACE`.
+     */
+    methods?: string[];
+    /**
+     * Determines whether network errors (the `TypeError` errors thrown by `fetch()`) trigger a retry.  The default is
+     * `true`.
+     */
+    networkErrors?: boolean;
+    /**
+     * The base amount of time (in milliseconds) to wait before the first retry.  The default is `300`.
+     */
+    delay?: number;
+    /**
+     * The factor by which the waiting time is multiplied after every retry.  The default is `2`.
+     */
+    factor?: number;
+    /**
+     * The maximum amount of time (in milliseconds) to wait between attempts.  The default is `30000`.
+     */
+    maxDelay?: number;
+    /**
+     * Determines whether a random amount of time (between zero and the calculated waiting time) is used instead of
+     * the calculated waiting time.  The default is `true`.
+     */
+    jitter?: boolean;
+    /**
+     * Determines whether the value of the `Retry-After` HTTP response header is honored.  When honored, a
+     * `Retry-After` value that exceeds `maxDelay` stops retrying.  The default is `true`.
+     */
+    retryAfter?: boolean;
+};
+
+/**
+ * Type of the stock fetch function.
+ */
+export type FetchFn<TInit extends FetchFnInit = FetchFnInit> = (url: FetchFnUrl, init?: TInit) => Promise<Response>;
+
+/**
+ * Defines the data stored in HTTP cache stores.
+ */
+export type CacheEntry = {
+    /**
+     * The status code of the stored response.
+     */
+    status: number;
+    /**
+     * The status text of the stored response.
+     */
+    statusText: string;
+    /**
+     * The HTTP headers of the stored response.
+     */
+    headers: [string, string][];
+    /**
+     * The parsed body of the stored response.
+     */
+    body: unknown;
+    /**
+     * The time the entry was stored or last revalidated, in milliseconds since the epoch.
+     */
+    storedAt: number;
+    /**
+     * The amount of time (in milliseconds) the entry is fresh, counted from `storedAt`.
+     */
+    maxAge: number;
+    /**
+     * The amount of time (in milliseconds) past `maxAge` during which the stale entry may be used while it is 
+     * revalidated in the background.
+     */
+    staleWhileRevalidate: number;
+    /**
+     * The value of the `ETag` HTTP header of the stored response, if any.
+     */
+    etag?: string;
+    /**
+     * The value of the `Last-Modified` HTTP header of the stored response, if any.
+     */
+    lastModified?: string;
+    /**
+     * The final URL of the stored response.
+     */
+    url?: string;
+    /**
+     * Indicates whether the stored response is the result of following one or more redirections.
+     */
+    redirected?: boolean;
+    /**
+     * The values of the request HTTP headers named by the `Vary` HTTP header of the stored response, if any.  The entry 
+     * is only used for HTTP requests with the same values.
+     */
+    vary?: Record<string, string | null>;
+};
+
+/**
+ * Defines the interface of HTTP cache stores.  Implement it to store cache entries somewhere other than memory.  Its 
+ * functions may be asynchronous.
+ */
+export type CacheStore = {
+    /**
+     * Gets the cache entry stored under the given key.
+     */
+    get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+    /**
+     * Stores the given cache entry under the given key.
+     */
+    set(key: string, entry: CacheEntry): void | Promise<void>;
+    /**
+     * Deletes the cache entry stored under the given key.
+     */
+    delete(key: string): void | Promise<void>;
+};
+
+/**
+ * Options for the fetcher's HTTP cache.
+ */
+export type CacheOptions = {
+    /**
+     * The cache store to use.  The default is a new `MemoryCacheStore` object.
+     */
+    store?: CacheStore;
+    /**
+     * Set to `true` if the fetcher serves many users (like a fetcher in a server), so responses marked with 
+     * `Cache-Control: private` are not stored.  The default is `false`.
+     */
+    shared?: boolean;
+};
+
+/**
+ * Context object given to middleware functions.  Middleware functions may modify its properties before calling the 
+ * next function in the chain.
+ */
+export type MiddlewareContext<TInit extends FetchFnInit = FetchFnInit> = {
+    /**
+     * URL parameter for the data-fetching function.
+     */
+    url: FetchFnUrl;
+    /**
+     * Options for the data-fetching function.
+     */
+    init: TInit;
+};
+
+/**
+ * Type of the middleware functions that can be installed in fetcher objects with `DrFetch.use()`.
+ * 
+ * Middleware functions receive the context object of the HTTP request and a function that invokes the rest of the 
+ * chain (the next middleware function or, at the end of the chain, the data-fetching function).  They must return the 
+ * response object, which may be the one returned by `next()` or a different one.
+ */
+export type Middleware<TInit extends FetchFnInit = FetchFnInit> = (
+    context: MiddlewareContext<TInit>,
+    next: () => Promise<Response>
+) => Promise<Response>;
+
+/**
+ * Defines the timing information of HTTP requests, as carried by fetcher events.  All values are milliseconds, as 
+ * given by `performance.now()`.
+ */
+export type FetchTiming = {
+    /**
+     * The time `DrFetch.fetch()` (or the shortcut function) was called.
+     */
+    start: number;
+    /**
+     * The time the response's HTTP headers were received (or the result was taken out of the HTTP cache), if already 
+     * known.
+     */
+    headersReceived?: number;
+    /**
+     * The time the response's body was parsed, if already known.
+     */
+    bodyParsed?: number;
+};
+
+/**
+ * Defines the information common to all fetcher events.
+ */
+export type FetchEventBase = {
+    /**
+     * The URL of the HTTP request, after resolving URL templates, the base URL and the query string.
+     */
+    url: string;
+    /**
+     * The HTTP method, in upper case.
+     */
+    method: string;
+    /**
+     * The auto-abort key of the HTTP request, if there is one.
+     */
+    autoAbortKey?: AutoAbortKey;
+    /**
+     * The timing information gathered so far.
+     */
+    timing: FetchTiming;
+};
+
+/**
+ * Event emitted when the HTTP request is about to be sent.
+ */
+export type FetchRequestEvent = FetchEventBase & {
+    /**
+     * The options of the HTTP request.
+     */
+    init: FetchFnInit;
+};
+
+/**
+ * Event emitted when the HTTP headers of the response are received, or when the result is taken out of the HTTP 
+ * cache.
+ */
+export type FetchResponseEvent = FetchEventBase & {
+    /**
+     * The status code of the response.
+     */
+    status: number;
+    /**
+     * The status text of the response.
+     */
+    statusText: string;
+    /**
+     * The HTTP response headers.
+     */
+    headers: Headers;
+    /**
+     * Indicates whether the response comes from the fetcher's HTTP cache.
+     */
+    fromCache: boolean;
+};
+
+/**
+ * Event emitted when the body of the response has been parsed.
+ */
+export type FetchBodyParsedEvent = FetchEventBase & {
+    /**
+     * The status code of the response.
+     */
+    status: number;
+    /**
+     * The parsed body, before any schema validation.
+     */
+    body: unknown;
+    /**
+     * The name of the body processor that produced the body:  `'json'`, `'text'`, `'ndjson'`, `'sse'`, `'blob'` or 
+     * `'formData'` for the stock body processors, the name given to custom body processors (or `'custom'`), the 
+     * response type when the `responseType` option is used, `'none'` for responses without body, or `'cache'` for 
+     * results taken out of the HTTP cache.
+     */
+    processor: string;
+};
+
+/**
+ * Event emitted when the HTTP request is aborted or times out.
+ */
+export type FetchAbortEvent = FetchEventBase & {
+    /**
+     * Indicates whether the HTTP request was aborted because it timed out.
+     */
+    timedOut: boolean;
+    /**
+     * The abort error.
+     */
+    error: unknown;
+};
+
+/**
+ * Event emitted when the HTTP request fails, or its body cannot be processed.
+ */
+export type FetchErrorEvent = FetchEventBase & {
+    /**
+     * The kind of failure, or `undefined` for errors that are not HTTP request failures (like an invalid URL template).
+     */
+    kind: FetchFailureKind | undefined;
+    /**
+     * The error.
+     */
+    error: unknown;
+};
+
+/**
+ * Event emitted when the HTTP request is aborted because a newer HTTP request with the same auto-abort key was made.
+ */
+export type FetchAutoAbortSupersededEvent = FetchEventBase & {
+    /**
+     * The auto-abort key shared by both HTTP requests.
+     */
+    autoAbortKey: AutoAbortKey;
+};
+
+/**
+ * Maps the names of the fetcher events to their event types.
+ */
+export type FetcherEvents = {
+    request: FetchRequestEvent;
+    response: FetchResponseEvent;
+    bodyParsed: FetchBodyParsedEvent;
+    abort: FetchAbortEvent;
+    error: FetchErrorEvent;
+    autoAbortSuperseded: FetchAutoAbortSupersededEvent;
+};
+
+/**
+ * Type of the functions that listen to fetcher events.
+ */
+export type FetcherEventListener<TEvent> = (event: TEvent) => void;
+
+/**
+ * Defines the span context needed to propagate traces with the W3C `traceparent` and `tracestate` HTTP headers.  It is 
+ * compatible with OpenTelemetry's `SpanContext`.
+ */
+export type TracingSpanContext = {
+    /**
+     * The trace ID, as 32 lower-case hexadecimal digits.
+     */
+    traceId: string;
+    /**
+     * The span ID, as 16 lower-case hexadecimal digits.
+     */
+    spanId: string;
+    /**
+     * The trace flags, like `1` for sampled traces.
+     */
+    traceFlags: number;
+    /**
+     * The vendor-specific trace state, if any.
+     */
+    traceState?: { serialize(): string; };
+};
+
+/**
+ * Defines the minimal span interface used by the tracing integration.  It is a subset of OpenTelemetry's `Span`.
+ */
+export type TracingSpan = {
+    /**
+     * Gets the span context, used to propagate the trace.
+     */
+    spanContext(): TracingSpanContext;
+    /**
+     * Sets an attribute of the span.
+     */
+    setAttribute(key: string, value: string | number | boolean): unknown;
+    /**
+     * Sets the status of the span.  The codes are the ones of OpenTelemetry's `SpanStatusCode`:  `0` for unset, `1` for 
+     * OK and `2` for error.
+     */
+    setStatus(status: { code: number; message?: string; }): unknown;
+    /**
+     * Records the given exception as a span event.
+     */
+    recordException(exception: any): unknown;
+    /**
+     * Ends the span.
+     */
+    end(): unknown;
+};
+
+/**
+ * Defines the minimal tracer interface used by the tracing integration.  OpenTelemetry's `Tracer` satisfies it.
+ */
+export type Tracer = {
+    /**
+     * Starts a new span.  The kind of the spans started by fetchers is `2` (OpenTelemetry's `SpanKind.CLIENT`).
+     */
+    startSpan(name: string, options?: { kind?: number; attributes?: Record<string, string | number | boolean>; }): TracingSpan;
+};
+
+/**
+ * Options for the tracing integration.
+ */
+export type TracingOptions = {
+    /**
+     * Determines whether the `traceparent` and `tracestate` HTTP headers are added to HTTP requests.  It can be a list 
+     * of origins (like `https://api.example.com`) that receive them in addition to the origin of the current page, or a 
+     * function that receives the URL of the HTTP request.
+     * 
+     * By default, the trace is only propagated to relative URLs and to the origin of the current page, because these 
+     * HTTP headers make browsers send CORS preflight requests to other origins.  Outside browsers, where there is no 
+     * current page, the trace is propagated to every URL.
+     */
+    propagate?: boolean | string[] | ((url: string) => boolean);
+};
+
+/**
+ * Options of the authentication subsystem of fetchers.
+ */
+export type AuthOptions = {
+    /**
+     * Function that returns the current access token.  If it returns `null` or `undefined`, HTTP requests are sent 
+     * without the `Authorization` HTTP header.
+     */
+    getToken: () => string | null | undefined | Promise<string | null | undefined>;
+    /**
+     * Function that refreshes the access token, so the next call to `getToken()` returns the new one.  It is called 
+     * once when an HTTP request is answered with status code 401, even if many HTTP requests get this status code at 
+     * the same time.  If not specified, 401 responses are returned as they are.
+     * 
+     * The refresh is considered failed if this function throws.
+     */
+    refreshToken?: () => unknown;
+    /**
+     * Authentication scheme that prefixes the token in the `Authorization` HTTP header.  Set to an empty string to 
+     * send the token by itself.  The default is `'Bearer'`.
+     */
+    scheme?: string;
+};
+
+/**
+ * Source of CSRF tokens:  The name of a cookie, the name of a `<meta>` tag, or a function that returns the token.
+ */
+export type CsrfTokenSource =
+    { cookie: string; } |
+    { meta: string; } |
+    (() => string | null | undefined | Promise<string | null | undefined>);
+
+/**
+ * Options of the CSRF (or XSRF) protection of fetchers.
+ */
+export type CsrfOptions = {
+    /**
+     * Source of the CSRF token.  The default is the `XSRF-TOKEN` cookie.
+     */
+    source?: CsrfTokenSource;
+    /**
+     * Name of the HTTP header that carries the CSRF token.  The default is `X-XSRF-TOKEN`.
+     */
+    header?: string;
+    /**
+     * HTTP methods whose HTTP requests carry the CSRF token.  The default is `['POST', 'PUT', 'PATCH', 'DELETE']`.
+     */
+    methods?: string[];
+    /**
+     * Name of the response HTTP header that provides new CSRF tokens.  Once a response carries this header, its value 
+     * is used instead of the token from the source.
+     */
+    responseHeader?: string;
+    /**
+     * Origins (like `https://api.example.com`) that may receive the CSRF token, in addition to the origin of the 
+     * fetcher's base URL and the origin of the current page.  The CSRF token is never sent to other origins.
+     */
+    allowedOrigins?: string[];
+};
+
+/**
+ * Fetcher cloning options.
+ */
+export type CloneOptions<
+    BodyTyping extends boolean | undefined,
+    Abortable extends boolean | undefined,
+    Safe extends boolean | undefined = boolean | undefined
+> = {
+    /**
+     * Determines whether to preserve the body typing of the original fetcher, including any body validators.  The 
+     * default is `true`.
+     */
+    preserveTyping?: BodyTyping;
+    /**
+     * Defines which data-fetching function the clone will use.
+     * 
+     * Pass `false` if you want the clone to use the standard `fetch()` function, or leave it `undefined` to inherit 
+     * the fetch function of the parent.
+     */
+    fetchFn?: FetchFn | false;
+    /**
+     * Determines if body processors are included in the clone.  The default is `true`.
+     */
+    includeProcessors?: boolean;
+    /**
+     * Determines if middleware functions are included in the clone.  The default is `true`.
+     */
+    includeMiddleware?: boolean;
+    /**
+     * Determines if event listeners are included in the clone.  The default is `true`.
+     */
+    includeListeners?: boolean;
+    /**
+     * Defines the base URL of the clone.
+     * 
+     * Pass `false` if you want the clone to have no base URL, or leave it `undefined` to inherit the base URL of the 
+     * parent.
+     */
+    baseUrl?: URL | string | false;
     /**
      * Defines whether to preserve the abortable state of the original fetcher.  The default is `true`.
      */
     preserveAbortable?: Abortable;
+    /**
+     * Defines whether to preserve the safe state of the original fetcher.  The default is `true`.
+     */
+    preserveSafe?: Safe;
+};
+
+/**
+ * Defines the options of custom body processors.
+ */
+export type ProcessorOptions = {
+    /**
+     * The media type or media types that the custom body processor handles.  They are advertised in the automatic 
+     * `Accept` HTTP header.  Specify them when the pattern is a regular expression or a predicate function, or to 
+     * advertise something other than the string patterns.
+     */
+    mediaTypes?: string | string[];
+    /**
+     * The quality value (between 0 and 1) of the media types in the automatic `Accept` HTTP header.  The default is 
+     * `1`.
+     */
+    quality?: number;
+    /**
+     * The name of the custom body processor, as reported by events and tracing.  The default is `'custom'`.
+     */
+    name?: string;
 };
 
 /**
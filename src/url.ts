@@ -0,0 +1,85 @@
+import type { UrlParamValue } from "./types.js";
+
+/**
+ * Determines if the given URL is absolute (has a scheme) or protocol-relative.
+ * @param url URL under test.
+ * @returns `true` if the URL is absolute, or `false` otherwise.
+ */
+export function isAbsoluteUrl(url: string) {
+    return /^([a-z][a-z\d+\-.]*:|\/\/)/i.test(url);
+}
+
+/**
+ * Obtains the origin of the given URL.
+ * @param url The URL.
+ * @returns The URL's origin, or `undefined` if the URL is relative (and therefore targets the current page's origin).
+ */
+export function originOf(url: URL | string) {
+    if (url instanceof URL) {
+        return url.origin;
+    }
+    if (!isAbsoluteUrl(url)) {
+        return undefined;
+    }
+    try {
+        // Protocol-relative URLs take the protocol of the current page, if any.
+        return new URL(url, typeof location === 'undefined' ? 'https://localhost' : location.href).origin;
+    }
+    catch {
+        // Invalid URLs get an opaque origin, which matches no other origin.
+        return 'null';
+    }
+}
+
+/**
+ * Replaces the parameter placeholders (`:name`) found in the given URL template with the URL-encoded values of the
+ * given parameters.  Placeholders without a matching parameter are left untouched.
+ * @param template URL template.
+ * @param params Values of the parameters.
+ * @returns The expanded URL.
+ */
+export function expandUrlTemplate(template: string, params: Record<string, UrlParamValue>) {
+    return template.replace(/:([A-Za-z_]\w*)/g, (placeholder, name: string) => Object.hasOwn(params, name) ?
+        encodeURIComponent(String(params[name])) :
+        placeholder
+    );
+}
+
+/**
+ * Combines the given base URL with the given relative URL.  Unlike `new URL(url, base)`, the path of the base URL is
+ * always preserved.
+ * @param baseUrl Base URL.
+ * @param url Relative URL.
+ * @returns The combined URL.
+ */
+export function joinUrl(baseUrl: URL | string, url: string) {
+    const base = baseUrl.toString();
+    if (!url) {
+        return base;
+    }
+    if (/^[?#]/.test(url)) {
+        return base + url;
+    }
+    return `${base.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Appends the given query string to the given URL, keeping any query string and fragment the URL may already have.
+ * @param url The URL that receives the query string.
+ * @param queryString The query string to append (without the leading question mark).
+ * @returns The resulting URL.
+ */
+export function appendQueryString<TUrl extends URL | string>(url: TUrl, queryString: string): TUrl {
+    if (!queryString) {
+        return url;
+    }
+    if (url instanceof URL) {
+        const newUrl = new URL(url);
+        newUrl.search = newUrl.search ? `${newUrl.search}&${queryString}` : queryString;
+        return newUrl as TUrl;
+    }
+    const hashIndex = url.indexOf('#');
+    const [base, hash] = hashIndex === -1 ? [url, ''] : [url.slice(0, hashIndex), url.slice(hashIndex)];
+    const separator = !base.includes('?') ? '?' : /[?&]$/.test(base) ? '' : '&';
+    return `${base}${separator}${queryString}${hash}` as TUrl;
+}
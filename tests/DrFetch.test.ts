@@ -2,8 +2,9 @@ import { expect } from "chai";
 import { describe, test } from "mocha";
 import { fake } from 'sinon';
 import { DrFetch } from "../src/DrFetch.js";
-import type { FetchFnInit, FetchFnUrl, StatusCode } from "../src/types.js";
-import { getHeader } from "../src/headers.js";
+import type { FetchFnInit, FetchFnUrl, ServerSentEvent, StandardSchemaV1, StatusCode, Stream, Tracer } from "../src/types.js";
+import { getHeader, setHeaders } from "../src/headers.js";
+import { MemoryCacheStore } from "../src/MemoryCacheStore.js";
 
 const shortcutMethodsWithBody = [
     'post',
@@ -18,6 +19,31 @@ const allShortcutMethods = [
     ...shortcutMethodsWithBody
 ] as const;
 
+function jsonFetch(status = 200, body: unknown = { a: 1 }, headers: Record<string, string> = {}) {
+    return fake((_url: FetchFnUrl, _init?: FetchFnInit) => Promise.resolve(new Response(JSON.stringify(body), {
+        status,
+        headers: { 'content-type': 'application/json', ...headers }
+    })));
+}
+
+function slowFetch(ms: number) {
+    return fake((_url: FetchFnUrl, init?: FetchFnInit) => new Promise<Response>((rs, rj) => {
+        const timer = setTimeout(() => rs(new Response(null)), ms);
+        init?.signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            rj(init.signal!.reason);
+        });
+    }));
+}
+
+async function collect<T>(iterable: AsyncIterable<T>) {
+    const items: T[] = [];
+    for await (let item of iterable) {
+        items.push(item);
+    }
+    return items;
+}
+
 describe('DrFetch', () => {
     describe('clone()', () => {
         [
@@ -354,6 +380,46 @@ describe('DrFetch', () => {
             // Clean up.
             await request2;
         });
+        [
+            { url: 'https://example.com/final', redirected: true },
+            { url: '', redirected: false },
+        ].forEach(tc => {
+            test(`Should project url = '${tc.url}' and redirected = ${tc.redirected} from the response.`, async () => {
+                // Arrange.
+                const response = new Response(null, { status: 204 });
+                Object.defineProperty(response, 'url', { value: tc.url });
+                Object.defineProperty(response, 'redirected', { value: tc.redirected });
+                const fetchFn = fake.resolves(response);
+                const fetcher = new DrFetch(fetchFn).for<204>();
+
+                // Act.
+                const result = await fetcher.fetch('x');
+
+                // Assert.
+                expect(result.url).to.equal(tc.url);
+                expect(result.redirected).to.equal(tc.redirected);
+            });
+        });
+        test("Should type redirection status codes when the redirect option is 'manual'.", async () => {
+            // Arrange.
+            const response = new Response(null, { status: 302, headers: { location: '/new' } });
+            const fetchFn = fake.resolves(response);
+            const fetcher = new DrFetch(fetchFn)
+                .for<200, { a: number; }>()
+                .for<301 | 302, undefined>();
+
+            // Act.
+            const result = await fetcher.get('x', { redirect: 'manual' });
+
+            // Assert.
+            expect(result.ok).to.equal(false);
+            if (result.status === 302) {
+                expect(result.headers.get('location')).to.equal('/new');
+            }
+            else {
+                expect.fail(`Unexpected status code ${result.status}.`);
+            }
+        });
     });
     describe('Shortcut Functions', () => {
         allShortcutMethods.map(x => ({
@@ -483,7 +549,14 @@ describe('DrFetch', () => {
                 // Assert.
                 expect(fetchFn.calledOnce).to.be.true;
                 Object.entries(init).forEach(([key, value]) => {
-                    expect(fetchFn.args[0][1][key]).to.equal(value);
+                    if (key === 'headers') {
+                        // The headers are copied, so the caller's object is not modified.
+                        expect(getHeader(fetchFn.args[0][1][key], 'x-test')).to.equal('abc');
+                        expect(init.headers).to.deep.equal({ 'x-test': 'abc' });
+                    }
+                    else {
+                        expect(fetchFn.args[0][1][key]).to.equal(value);
+                    }
                 });
             });
         });
@@ -566,6 +639,3418 @@ describe('DrFetch', () => {
             });
         });
     });
+    describe('Accept Header', () => {
+        function acceptOf(fetchFn: ReturnType<typeof fake>) {
+            return getHeader(fetchFn.firstCall.args[1].headers, 'accept');
+        }
+        [
+            {
+                headers: { 'x-test': 'abc' } as HeadersInit,
+                text: 'a POJO',
+            },
+            {
+                headers: new Headers({ 'x-test': 'abc' }),
+                text: 'a Headers object',
+            },
+        ].forEach(tc => {
+            test(`Should not add the header to the caller's headers when they are given as ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn);
+
+                // Act.
+                await fetcher.get('x', { headers: tc.headers });
+
+                // Assert.
+                expect(acceptOf(fetchFn)).to.equal('application/json;q=0.9, text/*;q=0.8');
+                expect(getHeader(tc.headers, 'accept')).to.be.undefined;
+            });
+        });
+        test("Should advertise the media types of the stock body processors when there are no custom processors.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(acceptOf(fetchFn)).to.equal('application/json;q=0.9, text/*;q=0.8');
+        });
+        [
+            {
+                text: 'a media type string pattern',
+                pattern: 'application/xml',
+                options: undefined,
+                expected: 'application/xml, application/json;q=0.9, text/*;q=0.8',
+            },
+            {
+                text: 'an array of string patterns',
+                pattern: ['application/xml', 'xml'],
+                options: undefined,
+                expected: 'application/xml, application/json;q=0.9, text/*;q=0.8',
+            },
+            {
+                text: 'a regular expression with media types in the options',
+                pattern: /xml/,
+                options: { mediaTypes: ['application/xml', 'text/xml'] },
+                expected: 'application/xml, text/xml, application/json;q=0.9, text/*;q=0.8',
+            },
+            {
+                text: 'a predicate function with a quality value in the options',
+                pattern: () => true,
+                options: { mediaTypes: 'application/xml', quality: 0.5 },
+                expected: 'application/json;q=0.9, text/*;q=0.8, application/xml;q=0.5',
+            },
+            {
+                text: 'a regular expression without options',
+                pattern: /xml/,
+                options: undefined,
+                expected: 'application/json;q=0.9, text/*;q=0.8',
+            },
+            {
+                text: 'a string pattern that overlaps a stock media type',
+                pattern: 'application/json',
+                options: undefined,
+                expected: 'application/json, text/*;q=0.8',
+            },
+        ].forEach(tc => {
+            test(`Should build the Accept header when a custom processor is added with ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn).withProcessor(tc.pattern, r => r.text(), tc.options);
+
+                // Act.
+                await fetcher.get('x');
+
+                // Assert.
+                expect(acceptOf(fetchFn)).to.equal(tc.expected);
+            });
+        });
+        [
+            {
+                text: 'a POJO',
+                headers: { ACCEPT: 'image/png' },
+            },
+            {
+                text: 'an array of tuples',
+                headers: [['accept', 'image/png']] as [string, string][],
+            },
+            {
+                text: 'a Headers object',
+                headers: new Headers({ Accept: 'image/png' }),
+            },
+        ].forEach(tc => {
+            test(`Should not override the Accept header given as ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn);
+
+                // Act.
+                await fetcher.get('x', { headers: tc.headers });
+
+                // Assert.
+                expect(acceptOf(fetchFn)).to.equal('image/png');
+            });
+        });
+        test("Should not override the Accept header of a Request object.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            await fetcher.fetch(new Request('https://example.com', { headers: { accept: 'image/png' } }));
+
+            // Assert.
+            expect(fetchFn.firstCall.args[1]).to.be.undefined;
+        });
+        test("Should keep the headers of a Request object when adding the Accept header.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            await fetcher.fetch(new Request('https://example.com', { headers: { 'x-test': 'abc' } }));
+
+            // Assert.
+            expect(getHeader(fetchFn.firstCall.args[1].headers, 'x-test')).to.equal('abc');
+            expect(acceptOf(fetchFn)).to.equal('application/json;q=0.9, text/*;q=0.8');
+        });
+    });
+    describe('withSerializer()', () => {
+        test("Should serialize the body with the stock form-urlencoded serializer when 'bodyType' says so.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            await fetcher.post('x', { a: 1, b: { c: 'd e' } }, { bodyType: 'application/x-www-form-urlencoded' });
+
+            // Assert.
+            const init = fetchFn.firstCall.args[1];
+            expect(init.body).to.equal('a=1&b[c]=d%20e');
+            expect(getHeader(init.headers, 'content-type')).to.equal('application/x-www-form-urlencoded');
+        });
+        test("Should serialize the body into a FormData object with the stock multipart serializer.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn);
+            const file = new Blob(['abc'], { type: 'text/plain' });
+
+            // Act.
+            await fetcher.post('x', { name: 'doc', tags: ['a', 'b'], file, skipped: null }, { bodyType: 'multipart/form-data' });
+
+            // Assert.
+            const init = fetchFn.firstCall.args[1];
+            expect(init.body).to.be.instanceOf(FormData);
+            const formData = init.body as FormData;
+            expect(formData.get('name')).to.equal('doc');
+            expect(formData.getAll('tags')).to.deep.equal(['a', 'b']);
+            expect(formData.get('file')).to.be.instanceOf(Blob);
+            expect(formData.has('skipped')).to.be.false;
+            expect(getHeader(init.headers ?? {}, 'content-type')).to.be.undefined;
+        });
+        test("Should remove an explicit multipart Content-Type header that has no boundary.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            await fetcher.post('x', { a: 1 }, { headers: { 'Content-Type': 'multipart/form-data' } });
+
+            // Assert.
+            const init = fetchFn.firstCall.args[1];
+            expect(init.body).to.be.instanceOf(FormData);
+            expect(getHeader(init.headers, 'content-type')).to.be.undefined;
+        });
+        test("Should select the serializer using the explicit Content-Type header.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const serializerFn = fake.returns('<a>1</a>');
+            const fetcher = new DrFetch(fetchFn).withSerializer('application/xml', serializerFn);
+
+            // Act.
+            await fetcher.put('x', { a: 1 }, { headers: { 'content-type': 'application/xml; charset=utf-8' } });
+
+            // Assert.
+            expect(serializerFn.calledOnceWith({ a: 1 })).to.be.true;
+            expect(fetchFn.firstCall.args[1].body).to.equal('<a>1</a>');
+            expect(getHeader(fetchFn.firstCall.args[1].headers, 'content-type')).to.equal('application/xml; charset=utf-8');
+        });
+        test("Should let custom serializers replace the stock ones.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withSerializer('application/json', () => 'custom');
+
+            // Act.
+            await fetcher.post('x', { a: 1 });
+
+            // Assert.
+            expect(fetchFn.firstCall.args[1].body).to.equal('{"a":1}');
+            await fetcher.post('x', { a: 1 }, { bodyType: 'application/json' });
+            expect(fetchFn.secondCall.args[1].body).to.equal('custom');
+        });
+        test("Should use the JSON serializer for media types with the '+json' suffix.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            await fetcher.patch('x', { a: 1 }, { bodyType: 'application/merge-patch+json' });
+
+            // Assert.
+            expect(fetchFn.firstCall.args[1].body).to.equal('{"a":1}');
+            expect(getHeader(fetchFn.firstCall.args[1].headers, 'content-type')).to.equal('application/merge-patch+json');
+        });
+        test("Should not serialize bodies that fetch() supports natively.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const serializerFn = fake.returns('x');
+            const fetcher = new DrFetch(fetchFn).withSerializer('text/plain', serializerFn);
+
+            // Act.
+            await fetcher.post('x', 'raw', { bodyType: 'text/plain' });
+
+            // Assert.
+            expect(serializerFn.called).to.be.false;
+            expect(fetchFn.firstCall.args[1].body).to.equal('raw');
+            expect(getHeader(fetchFn.firstCall.args[1].headers, 'content-type')).to.equal('text/plain');
+        });
+        test("Should make clone() return a fetcher with the same serializers.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withSerializer('application/xml', () => '<xml />');
+
+            // Act.
+            const clone = fetcher.clone();
+
+            // Assert.
+            await clone.post('x', { a: 1 }, { bodyType: 'application/xml' });
+            expect(fetchFn.firstCall.args[1].body).to.equal('<xml />');
+        });
+    });
+    describe('withJson()', () => {
+        function jsonResponse(text: string, contentType = 'application/json') {
+            return new Response(text, { headers: { 'content-type': contentType } });
+        }
+        test("Should parse ISO-8601 date and time strings as dates when 'dates' is true.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(jsonResponse('{"at":"2024-01-31T10:00:00.000Z","local":"2024-01-31T10:00:00","day":"2024-01-31"}'));
+            const fetcher = new DrFetch(fetchFn).withJson({ dates: true }).for<200, { at: Date; local: string; day: string; }>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.body.at).to.be.instanceOf(Date);
+            expect(response.body.at.toISOString()).to.equal('2024-01-31T10:00:00.000Z');
+            expect(response.body.local).to.equal('2024-01-31T10:00:00');
+            expect(response.body.day).to.equal('2024-01-31');
+        });
+        test("Should parse unsafe integers as big integers without losing precision when 'bigInts' is true.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(jsonResponse('{"id":12345678901234567891,"n":[-98765432109876543210,1.5,2e30,7],"s":"12345678901234567891 \\"x\\""}'));
+            const fetcher = new DrFetch(fetchFn).withJson({ bigInts: true }).for<200, { id: bigint; n: (bigint | number)[]; s: string; }>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.body.id).to.equal(12345678901234567891n);
+            expect(response.body.n).to.deep.equal([-98765432109876543210n, 1.5, 2e30, 7]);
+            expect(response.body.s).to.equal('12345678901234567891 "x"');
+        });
+        test("Should apply the reviver after the built-in conversions.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(jsonResponse('{"at":"2024-01-31T10:00:00Z"}'));
+            const reviver = fake((_key: string, value: any) => value instanceof Date ? value.getTime() : value);
+            const fetcher = new DrFetch(fetchFn).withJson({ dates: true, reviver }).for<200, { at: number; }>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.body.at).to.equal(Date.UTC(2024, 0, 31, 10));
+        });
+        test("Should stringify bodies with the replacer and big integers.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const replacer = (key: string, value: any) => key === 'secret' ? undefined : value;
+            const fetcher = new DrFetch(fetchFn).withJson({ replacer, bigInts: true });
+
+            // Act.
+            await fetcher.post('x', { id: 12345678901234567891n, secret: 'x', list: [1n] });
+
+            // Assert.
+            expect(fetchFn.firstCall.args[1].body).to.equal('{"id":12345678901234567891,"list":[1]}');
+        });
+        test("Should apply the options to the lines of NDJSON bodies.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(jsonResponse('{"id":12345678901234567891}\n', 'application/x-ndjson'));
+            const fetcher = new DrFetch(fetchFn).withJson({ bigInts: true }).for<200, Stream<{ id: bigint; }>>();
+            const items: { id: bigint; }[] = [];
+
+            // Act.
+            const response = await fetcher.get('x');
+            for await (let item of response.body) {
+                items.push(item);
+            }
+
+            // Assert.
+            expect(items).to.deep.equal([{ id: 12345678901234567891n }]);
+        });
+        test("Should give custom processors a JSON parser that applies the options.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(jsonResponse('{"at":"2024-01-31T10:00:00Z"}', 'application/x-custom'));
+            const fetcher = new DrFetch(fetchFn)
+                .withJson({ dates: true })
+                .withProcessor('application/x-custom', (r, p) => p.json(r))
+                .for<200, { at: Date; }>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.body.at).to.be.instanceOf(Date);
+        });
+        test("Should make clone() return a fetcher with the same options.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withJson({ bigInts: true });
+
+            // Act.
+            const clone = fetcher.clone();
+
+            // Assert.
+            await clone.post('x', [1n]);
+            expect(fetchFn.firstCall.args[1].body).to.equal('[1]');
+        });
+    });
+    describe('for()', () => {
+        function numberSchema(async = false): StandardSchemaV1<unknown, { n: number; }> {
+            const validate = (value: unknown) => {
+                const n = (value as any)?.n;
+                return typeof n === 'number' ?
+                    { value: { n: n * 2 } } :
+                    { issues: [{ message: 'Expected a number.', path: ['n'] }] };
+            };
+            return {
+                '~standard': {
+                    version: 1,
+                    vendor: 'test',
+                    validate: async ? (value: unknown) => Promise.resolve(validate(value)) : validate,
+                },
+            };
+        }
+        [
+            false,
+            true,
+        ].forEach(async => {
+            test(`Should return the validated body when the body passes ${async ? 'asynchronous ' : ''}validation.`, async () => {
+                // Arrange.
+                const fetcher = new DrFetch(jsonFetch(200, { n: 2 }));
+
+                // Act.
+                const response = await fetcher.for(200, numberSchema(async)).get('x');
+
+                // Assert.
+                expect(response.invalidBody).to.not.be.ok;
+                expect(response.body).to.deep.equal({ n: 4 });
+            });
+            test(`Should return an invalid body result when the body fails ${async ? 'asynchronous ' : ''}validation.`, async () => {
+                // Arrange.
+                const fetcher = new DrFetch(jsonFetch(200, { n: 'two' }));
+
+                // Act.
+                const response = await fetcher.for(200, numberSchema(async)).get('x');
+
+                // Assert.
+                expect(response.invalidBody).to.be.true;
+                expect(response.invalidBody && response.issues).to.have.lengthOf(1);
+                expect(response.body).to.deep.equal({ n: 'two' });
+            });
+        });
+        test("Should validate every status code given as an array.", async () => {
+            // Arrange.
+            const fetcher = new DrFetch(jsonFetch(201, { n: 'two' }));
+
+            // Act.
+            const response = await fetcher.for([200, 201], numberSchema()).get('x');
+
+            // Assert.
+            expect(response.invalidBody).to.be.true;
+        });
+        test("Should not validate the body of other status codes.", async () => {
+            // Arrange.
+            const fetcher = new DrFetch(jsonFetch(400, { n: 'two' }));
+
+            // Act.
+            const response = await fetcher.for(200, numberSchema()).for<400, { n: string; }>().get('x');
+
+            // Assert.
+            expect(response.invalidBody).to.not.be.ok;
+            expect(response.body).to.deep.equal({ n: 'two' });
+        });
+        test("Should apply the validator to the fetcher object it is called on.", async () => {
+            // Arrange.
+            const fetcher = new DrFetch(jsonFetch(200, { n: 'two' }));
+            const typed = fetcher.for(200, numberSchema());
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(typed).to.equal(fetcher);
+            expect((response as { invalidBody?: boolean; }).invalidBody).to.be.true;
+        });
+        [
+            {
+                preserveTyping: true,
+                expected: true,
+            },
+            {
+                preserveTyping: false,
+                expected: undefined,
+            },
+        ].forEach(tc => {
+            test(`Should ${tc.preserveTyping ? '' : 'not '}carry the validators over to clones when 'preserveTyping' is ${tc.preserveTyping}.`, async () => {
+                // Arrange.
+                const fetcher = new DrFetch(jsonFetch(200, { n: 'two' })).for(200, numberSchema());
+
+                // Act.
+                const clone = fetcher.clone({ preserveTyping: tc.preserveTyping });
+
+                // Assert.
+                const response = await clone.fetch('x');
+                expect((response as { invalidBody?: boolean; }).invalidBody).to.equal(tc.expected);
+            });
+        });
+    });
+    describe('forOthers()', () => {
+        test("Should return the same fetcher object.", () => {
+            // Arrange.
+            const fetcher = new DrFetch(jsonFetch(200, {}));
+
+            // Act.
+            const result = fetcher.forOthers<{ message: string; }>();
+
+            // Assert.
+            expect(result).to.equal(fetcher);
+        });
+        [
+            { status: 200, body: { n: 1 } },
+            { status: 404, body: { message: 'Not found.' } },
+            { status: 503, body: { message: 'Down.' } },
+        ].forEach(tc => {
+            test(`Should type the body of status code ${tc.status} with the declared or the catch-all type.`, async () => {
+                // Arrange.
+                const fetchFn = jsonFetch(tc.status, tc.body);
+                const fetcher = new DrFetch(fetchFn)
+                    .for<200, { n: number; }>()
+                    .for<401, undefined>()
+                    .forOthers<{ message: string; }>();
+
+                // Act.
+                const response = await fetcher.get('x');
+
+                // Assert.
+                if (response.status === 200) {
+                    expect(response.body.n).to.equal(1);
+                }
+                else if (response.status !== 401) {
+                    // @ts-expect-error TS2367: Status code 200 is not part of the catch-all results.
+                    expect(response.status === 200).to.be.false;
+                    expect(response.body.message).to.equal((tc.body as { message: string; }).message);
+                }
+                else {
+                    expect.fail('Status code 401 was not returned.');
+                }
+            });
+        });
+        test("Should type all status codes with the catch-all type when no status codes were declared.", async () => {
+            // Arrange.
+            const fetchFn = jsonFetch(500, { message: 'Oops.' });
+            const fetcher = new DrFetch(fetchFn).forOthers<{ message: string; }>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.ok).to.be.false;
+            expect(response.body.message).to.equal('Oops.');
+        });
+        test("Should narrow the catch-all results by their ok property.", async () => {
+            // Arrange.
+            const fetchFn = jsonFetch(202, { message: 'Queued.' });
+            const fetcher = new DrFetch(fetchFn)
+                .for<200, { n: number; }>()
+                .forOthers<{ message: string; }>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            if (response.ok && response.status !== 200) {
+                const status: 201 | 202 | 203 | 204 | 205 | 206 | 207 | 208 | 226 = response.status;
+                expect(status).to.equal(202);
+            }
+            else {
+                expect.fail('The response was not a catch-all OK response.');
+            }
+        });
+    });
+    describe('match()', () => {
+        [
+            { status: 200, body: { n: 1 }, expected: 'n = 1' },
+            { status: 404, body: { message: 'Missing.' }, expected: 'Missing.' },
+        ].forEach(tc => {
+            test(`Should call the handler of status code ${tc.status} with the body and the result.`, async () => {
+                // Arrange.
+                const fetchFn = jsonFetch(tc.status, tc.body);
+                const fetcher = new DrFetch(fetchFn)
+                    .for<200, { n: number; }>()
+                    .for<404, { message: string; }>();
+                let handledResult: unknown;
+
+                // Act.
+                const result = await fetcher.get('x').match({
+                    200: (body, r) => {
+                        handledResult = r;
+                        return `n = ${body.n}`;
+                    },
+                    404: (body, r) => {
+                        handledResult = r;
+                        return body.message;
+                    },
+                });
+
+                // Assert.
+                expect(result).to.equal(tc.expected);
+                expect(handledResult).to.include({ status: tc.status });
+            });
+        });
+        test("Should call the default handler when there is no handler for the status code.", async () => {
+            // Arrange.
+            const fetchFn = jsonFetch(500, { message: 'Oops.' });
+            const fetcher = new DrFetch(fetchFn)
+                .for<200, { n: number; }>()
+                .forOthers<{ message: string; }>();
+
+            // Act.
+            const result = await fetcher.get('x').match({
+                200: () => 1,
+                default: (r) => r.status,
+            });
+
+            // Assert.
+            expect(result).to.equal(500);
+        });
+        test("Should call the aborted handler for aborted results.", async () => {
+            // Arrange.
+            const fetchFn = fake.rejects(new DOMException('Aborted.', 'AbortError'));
+            const fetcher = new DrFetch(fetchFn).abortable().for<200, { n: number; }>();
+
+            // Act.
+            const result = await fetcher.get('x').match({
+                200: () => 'ok',
+                aborted: (r) => r.timedOut ? 'timed out' : 'aborted',
+            });
+
+            // Assert.
+            expect(result).to.equal('aborted');
+        });
+        test("Should call the failed handler for the failed results of safe fetchers.", async () => {
+            // Arrange.
+            const error = new TypeError('Failed to fetch.');
+            const fetchFn = fake.rejects(error);
+            const fetcher = new DrFetch(fetchFn).safe().for<200, { n: number; }>();
+
+            // Act.
+            const result = await fetcher.get('x').match({
+                200: () => undefined,
+                failed: (r) => r.error,
+            });
+
+            // Assert.
+            expect(result).to.equal(error);
+        });
+        test("Should call the invalidBody handler for results whose body failed validation.", async () => {
+            // Arrange.
+            const fetchFn = jsonFetch(200, { n: 'one' });
+            const schema: StandardSchemaV1<unknown, { n: number; }> = {
+                '~standard': {
+                    version: 1,
+                    vendor: 'test',
+                    validate: () => ({ issues: [{ message: 'Expected a number.' }] }),
+                },
+            };
+            const fetcher = new DrFetch(fetchFn).for(200, schema);
+
+            // Act.
+            const result = await fetcher.get('x').match({
+                200: (body) => body.n,
+                invalidBody: (r) => r.issues.length,
+            });
+
+            // Assert.
+            expect(result).to.equal(1);
+        });
+        test("Should resolve to undefined when the status code is undeclared and there is no default handler.", async () => {
+            // Arrange.
+            const fetchFn = jsonFetch(500, {});
+            const fetcher = new DrFetch(fetchFn).for<200, { n: number; }>();
+
+            // Act.
+            const result: number | undefined = await fetcher.get('x').match({ 200: () => 1 });
+
+            // Assert.
+            expect(result).to.be.undefined;
+        });
+        test("Should not include undefined in the result type when the default handler is given.", async () => {
+            // Arrange.
+            const fetchFn = jsonFetch(500, {});
+            const fetcher = new DrFetch(fetchFn).for<200, { n: number; }>();
+
+            // Act.
+            const result: number = await fetcher.get('x').match({ 200: () => 1, default: () => 2 });
+
+            // Assert.
+            expect(result).to.equal(2);
+        });
+        test("Should await the value returned by asynchronous handlers.", async () => {
+            // Arrange.
+            const fetchFn = jsonFetch(200, { n: 2 });
+            const fetcher = new DrFetch(fetchFn).for<200, { n: number; }>();
+
+            // Act.
+            const result: number | undefined = await fetcher.get('x').match({
+                200: async (body) => body.n * 2,
+            });
+
+            // Assert.
+            expect(result).to.equal(4);
+        });
+        test("Should keep the promise usable as a regular promise.", async () => {
+            // Arrange.
+            const fetchFn = jsonFetch(200, { n: 1 });
+            const fetcher = new DrFetch(fetchFn).for<200, { n: number; }>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.body).to.deep.equal({ n: 1 });
+        });
+        test("Should require a handler for every declared status code unless there is a default handler.", async () => {
+            // Arrange.
+            const fetchFn = jsonFetch(200, { n: 1 });
+            const fetcher = new DrFetch(fetchFn)
+                .abortable()
+                .for<200, { n: number; }>()
+                .for<404, undefined>();
+
+            // Act.
+            // @ts-expect-error TS2345: The handler for status code 404 is missing.
+            const missingStatus = fetcher.get('x').match({ 200: () => 1, aborted: () => 0 });
+            // @ts-expect-error TS2345: The handler for aborted results is missing.
+            const missingAborted = fetcher.get('x').match({ 200: () => 1, 404: () => 0 });
+            const withDefault = fetcher.get('x').match({ 200: () => 1, default: () => 0 });
+
+            // Assert.
+            expect(await Promise.all([missingStatus, missingAborted, withDefault])).to.deep.equal([1, 1, 1]);
+        });
+    });
+    describe('withBaseUrl()', () => {
+        [
+            {
+                baseUrl: 'https://example.com/api',
+                url: '/users',
+                expected: 'https://example.com/api/users',
+            },
+            {
+                baseUrl: 'https://example.com/api/',
+                url: 'users',
+                expected: 'https://example.com/api/users',
+            },
+            {
+                baseUrl: '/api',
+                url: 'users?active=true',
+                expected: '/api/users?active=true',
+            },
+            {
+                baseUrl: new URL('https://example.com/api/'),
+                url: '/users',
+                expected: 'https://example.com/api/users',
+            },
+            {
+                baseUrl: 'https://example.com/api',
+                url: 'https://other.example.com/users',
+                expected: 'https://other.example.com/users',
+            },
+            {
+                baseUrl: 'https://example.com/api',
+                url: '//other.example.com/users',
+                expected: '//other.example.com/users',
+            },
+        ].forEach(tc => {
+            test(`Should produce "${tc.expected}" out of base URL "${tc.baseUrl}" and URL "${tc.url}".`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn).withBaseUrl(tc.baseUrl);
+
+                // Act.
+                await fetcher.get(tc.url);
+
+                // Assert.
+                expect(fetchFn.args[0][0]).to.equal(tc.expected);
+            });
+        });
+        test("Should not alter URL objects.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withBaseUrl('https://example.com/api');
+            const url = new URL('https://other.example.com/users');
+
+            // Act.
+            await fetcher.get(url);
+
+            // Assert.
+            expect(fetchFn.args[0][0]).to.equal(url);
+        });
+        [
+            {
+                baseUrl: undefined,
+                expected: 'https://example.com/api/users',
+                text: 'inherit the base URL',
+            },
+            {
+                baseUrl: 'https://other.example.com',
+                expected: 'https://other.example.com/users',
+                text: 'override the base URL',
+            },
+            {
+                baseUrl: false as const,
+                expected: '/users',
+                text: 'remove the base URL',
+            },
+        ].forEach(tc => {
+            test(`Should make clone() ${tc.text} when 'baseUrl' is ${tc.baseUrl}.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn).withBaseUrl('https://example.com/api');
+
+                // Act.
+                const clone = fetcher.clone({ baseUrl: tc.baseUrl });
+
+                // Assert.
+                await clone.get('/users');
+                expect(fetchFn.args[0][0]).to.equal(tc.expected);
+            });
+        });
+    });
+    describe('URL Templates', () => {
+        test("Should replace the URL template's parameters with the URL-encoded values given in 'params'.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withBaseUrl('https://example.com:8080/api');
+
+            // Act.
+            await fetcher.get('/users/:id/todos/:todoId', { params: { id: 'a b/c', todoId: 12 } });
+
+            // Assert.
+            expect(fetchFn.args[0][0]).to.equal('https://example.com:8080/api/users/a%20b%2Fc/todos/12');
+        });
+        shortcutMethodsWithBody.forEach(method => {
+            test(`${method}():  Should replace the URL template's parameters.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn);
+
+                // Act.
+                await fetcher[method]('/users/:id', { a: 1 }, { params: { id: 5 } });
+
+                // Assert.
+                expect(fetchFn.args[0][0]).to.equal('/users/5');
+            });
+        });
+        test("Should require the URL template's parameters.", () => {
+            // Arrange.
+            const fetcher = new DrFetch(fake.resolves(new Response(null)) as any);
+            const act = () => {
+                // @ts-expect-error TS2554: The 'init' argument is required.
+                fetcher.get('/users/:id');
+                // @ts-expect-error TS2322: The 'todoId' parameter is missing.
+                fetcher.get('/users/:id/todos/:todoId', { params: { id: 1 } });
+                // @ts-expect-error TS2554: The 'init' argument is required.
+                fetcher.post('/users/:id', {});
+            };
+
+            // Assert.
+            expect(act).to.not.be.undefined;
+        });
+    });
+    describe('Query Strings', () => {
+        [
+            {
+                url: '/users',
+                expected: '/users?a=1&b=x',
+                text: 'a URL without a query string',
+            },
+            {
+                url: '/users?c=2',
+                expected: '/users?c=2&a=1&b=x',
+                text: 'a URL with a query string',
+            },
+            {
+                url: '/users?c=2#top',
+                expected: '/users?c=2&a=1&b=x#top',
+                text: 'a URL with a query string and a fragment',
+            },
+        ].forEach(tc => {
+            test(`Should merge the query data with ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn);
+
+                // Act.
+                await fetcher.get(tc.url, { query: { a: 1, b: 'x' } });
+
+                // Assert.
+                expect(fetchFn.args[0][0]).to.equal(tc.expected);
+            });
+        });
+        test("Should merge the query data with the query string of a URL object.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            await fetcher.get(new URL('https://example.com/users?c=2'), { query: { a: 1 } });
+
+            // Assert.
+            expect(fetchFn.args[0][0].toString()).to.equal('https://example.com/users?c=2&a=1');
+        });
+        allShortcutMethods.forEach(method => {
+            test(`${method}():  Should add the query string to the URL.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn).withBaseUrl('https://example.com');
+
+                // Act.
+                await (fetcher[method] as (url: string, ...args: any[]) => Promise<unknown>)(
+                    '/users/:id',
+                    ...(method === 'get' || method === 'head' ? [] : [undefined]),
+                    { params: { id: 1 }, query: { a: 1 } }
+                );
+
+                // Assert.
+                expect(fetchFn.args[0][0]).to.equal('https://example.com/users/1?a=1');
+            });
+        });
+        [
+            {
+                serializer: { arrayFormat: 'comma' as const },
+                text: 'stock serializer options',
+            },
+            {
+                serializer: () => 'ids=1,2',
+                text: 'a custom serializer function',
+            },
+        ].forEach(tc => {
+            test(`Should use the configured serializer when given ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn).withQuerySerializer(tc.serializer);
+
+                // Act.
+                await fetcher.get('/users', { query: { ids: [1, 2] } });
+
+                // Assert.
+                expect(fetchFn.args[0][0]).to.equal('/users?ids=1,2');
+            });
+        });
+        test("Should make clone() return a fetcher with the same query serializer.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withQuerySerializer({ arrayFormat: 'brackets' }).clone();
+
+            // Act.
+            await fetcher.get('/users', { query: { ids: [1, 2] } });
+
+            // Assert.
+            expect(fetchFn.args[0][0]).to.equal('/users?ids[]=1&ids[]=2');
+        });
+    });
+    describe('use()', () => {
+        test("Should run the middleware functions in the order they were added.", async () => {
+            // Arrange.
+            const log: string[] = [];
+            const fetchFn = fake(() => {
+                log.push('fetch');
+                return Promise.resolve(new Response(null));
+            });
+            const fetcher = new DrFetch(fetchFn)
+                .use(async (_, next) => {
+                    log.push('1 before');
+                    const response = await next();
+                    log.push('1 after');
+                    return response;
+                })
+                .use(async (_, next) => {
+                    log.push('2 before');
+                    const response = await next();
+                    log.push('2 after');
+                    return response;
+                });
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(log).to.deep.equal(['1 before', '2 before', 'fetch', '2 after', '1 after']);
+        });
+        test("Should call the data-fetching function with the URL and options modified by the middleware.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn)
+                .use((ctx, next) => {
+                    ctx.url = 'y';
+                    setHeaders(ctx.init, { 'x-test': 'abc' });
+                    return next();
+                });
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(fetchFn.args[0][0]).to.equal('y');
+            expect(getHeader(fetchFn.args[0][1]!.headers!, 'x-test')).to.equal('abc');
+        });
+        test("Should give every retry attempt its own copy of the headers.", async () => {
+            // Arrange.
+            let calls = 0;
+            const fetchFn = fake((_url: FetchFnUrl, _init?: FetchFnInit) => Promise.resolve(new Response(null, { status: ++calls > 1 ? 200 : 503 })));
+            const headers = new Headers({ 'x-test': 'abc' });
+            const fetcher = new DrFetch(fetchFn)
+                .withRetry({ delay: 0 })
+                .use((ctx, next) => {
+                    (ctx.init.headers as Headers).append('x-attempt', '1');
+                    return next();
+                });
+
+            // Act.
+            await fetcher.get('x', { headers });
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+            for (let [, init] of fetchFn.args) {
+                expect(getHeader(init!.headers!, 'x-attempt')).to.equal('1');
+                expect(getHeader(init!.headers!, 'x-test')).to.equal('abc');
+            }
+            expect(headers.has('x-attempt')).to.be.false;
+        });
+        test("Should use the response returned by the middleware.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null, { status: 500 }));
+            const fetcher = new DrFetch(fetchFn)
+                .use(async (_, next) => {
+                    await next();
+                    return new Response('Hi!', { status: 200, headers: { 'content-type': 'text/plain' } });
+                });
+
+            // Act.
+            const response = await fetcher.for<200, string>().get('x');
+
+            // Assert.
+            expect(response.status).to.equal(200);
+            expect(response.body).to.equal('Hi!');
+        });
+        test("Should allow the middleware to skip the data-fetching function.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn)
+                .use(() => Promise.resolve(new Response(null, { status: 204 })));
+
+            // Act.
+            const response = await fetcher.for<204, null>().get('x');
+
+            // Assert.
+            expect(fetchFn.called).to.be.false;
+            expect(response.status).to.equal(204);
+        });
+        [
+            true,
+            false,
+        ].forEach(includeMiddleware => {
+            test(`Should ${includeMiddleware ? '' : 'not '}carry the middleware over to clones when 'includeMiddleware' is ${includeMiddleware}.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const middleware = fake((_: unknown, next: () => Promise<Response>) => next());
+                const fetcher = new DrFetch(fetchFn).use(middleware);
+
+                // Act.
+                const clone = fetcher.clone({ includeMiddleware });
+
+                // Assert.
+                await clone.get('x');
+                expect(middleware.called).to.equal(includeMiddleware);
+            });
+        });
+    });
+    describe('withRetry()', () => {
+        function sequenceFetch(...outcomes: (Response | Error)[]) {
+            let i = 0;
+            return fake((_url: FetchFnUrl, _init?: FetchFnInit) => {
+                const outcome = outcomes[Math.min(i++, outcomes.length - 1)];
+                return outcome instanceof Error ? Promise.reject(outcome) : Promise.resolve(outcome);
+            });
+        }
+        [
+            503,
+            429,
+            502,
+        ].forEach(status => {
+            test(`Should retry the HTTP request when the response's status code is ${status}.`, async () => {
+                // Arrange.
+                const fetchFn = sequenceFetch(new Response(null, { status }), new Response(null, { status: 200 }));
+                const fetcher = new DrFetch(fetchFn).withRetry({ delay: 0 });
+
+                // Act.
+                const response = await fetcher.for<200, null>().get('x');
+
+                // Assert.
+                expect(fetchFn.calledTwice).to.be.true;
+                expect(response.status).to.equal(200);
+            });
+        });
+        test("Should retry the HTTP request when the data-fetching function throws a network error.", async () => {
+            // Arrange.
+            const fetchFn = sequenceFetch(new TypeError('Failed to fetch.'), new Response(null, { status: 200 }));
+            const fetcher = new DrFetch(fetchFn).withRetry({ delay: 0 });
+
+            // Act.
+            const response = await fetcher.for<200, null>().get('x');
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+            expect(response.status).to.equal(200);
+        });
+        test("Should not retry the HTTP request when the data-fetching function throws an error that is not a network error.", async () => {
+            // Arrange.
+            const fetchFn = sequenceFetch(new Error('Test:  Oops.'), new Response(null, { status: 200 }));
+            const fetcher = new DrFetch(fetchFn).withRetry({ delay: 0 });
+            let didThrow = false;
+
+            // Act.
+            try {
+                await fetcher.get('x');
+            }
+            catch {
+                didThrow = true;
+            }
+
+            // Assert.
+            expect(didThrow).to.be.true;
+            expect(fetchFn.calledOnce).to.be.true;
+        });
+        test("Should stop retrying once the retry limit is reached.", async () => {
+            // Arrange.
+            const fetchFn = sequenceFetch(new Response(null, { status: 503 }));
+            const fetcher = new DrFetch(fetchFn).withRetry({ delay: 0, limit: 3 });
+
+            // Act.
+            const response = await fetcher.for<503, null>().get('x');
+
+            // Assert.
+            expect(fetchFn.callCount).to.equal(4);
+            expect(response.status).to.equal(503);
+        });
+        test("Should not retry the HTTP request when the status code is not one of the configured status codes.", async () => {
+            // Arrange.
+            const fetchFn = sequenceFetch(new Response(null, { status: 500 }), new Response(null, { status: 200 }));
+            const fetcher = new DrFetch(fetchFn).withRetry({ delay: 0, statusCodes: [503] });
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(fetchFn.calledOnce).to.be.true;
+        });
+        [
+            {
+                methods: undefined,
+                shouldRetry: false,
+                text: 'not retry POST requests by default',
+            },
+            {
+                methods: ['post'],
+                shouldRetry: true,
+                text: 'retry POST requests when the method is configured',
+            },
+        ].forEach(tc => {
+            test(`Should ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = sequenceFetch(new Response(null, { status: 503 }), new Response(null, { status: 200 }));
+                const fetcher = new DrFetch(fetchFn).withRetry({ delay: 0, methods: tc.methods });
+
+                // Act.
+                await fetcher.post('x', { a: 1 });
+
+                // Assert.
+                expect(fetchFn.callCount).to.equal(tc.shouldRetry ? 2 : 1);
+            });
+        });
+        test("Should not retry a request object that carries a body.", async () => {
+            // Arrange.
+            const fetchFn = sequenceFetch(new Response(null, { status: 503 }), new Response(null, { status: 200 }));
+            const fetcher = new DrFetch(fetchFn).withRetry({ delay: 0 });
+            const request = new Request('http://example.com/x', { method: 'PUT', body: 'abc' });
+
+            // Act.
+            const response = await fetcher.for<503, null>().fetch(request);
+
+            // Assert.
+            expect(fetchFn.calledOnce).to.be.true;
+            expect(response.status).to.equal(503);
+        });
+        test("Should stop retrying when the Retry-After header asks for a wait longer than the maximum delay.", async () => {
+            // Arrange.
+            const fetchFn = sequenceFetch(
+                new Response(null, { status: 429, headers: { 'retry-after': '120' } }),
+                new Response(null, { status: 200 })
+            );
+            const fetcher = new DrFetch(fetchFn).withRetry({ delay: 0, maxDelay: 1000 });
+
+            // Act.
+            const response = await fetcher.for<429, null>().get('x');
+
+            // Assert.
+            expect(fetchFn.calledOnce).to.be.true;
+            expect(response.status).to.equal(429);
+        });
+        test("Should honor a Retry-After header of zero seconds.", async () => {
+            // Arrange.
+            const fetchFn = sequenceFetch(
+                new Response(null, { status: 429, headers: { 'retry-after': '0' } }),
+                new Response(null, { status: 200 })
+            );
+            const fetcher = new DrFetch(fetchFn).withRetry({ delay: 60000 });
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+        });
+        test("Should stop retrying when the signal is aborted while waiting.", async () => {
+            // Arrange.
+            const fetchFn = sequenceFetch(new Response(null, { status: 503 }), new Response(null, { status: 200 }));
+            const fetcher = new DrFetch(fetchFn).abortable().withRetry({ delay: 60000, jitter: false }).for<StatusCode, {}>();
+            const ac = new AbortController();
+
+            // Act.
+            const request = fetcher.get('x', { signal: ac.signal });
+            setTimeout(() => ac.abort(), 0);
+            const response = await request;
+
+            // Assert.
+            expect(fetchFn.calledOnce).to.be.true;
+            expect(response.aborted).to.be.true;
+        });
+        test("Should allow disabling retries per HTTP request.", async () => {
+            // Arrange.
+            const fetchFn = sequenceFetch(new Response(null, { status: 503 }), new Response(null, { status: 200 }));
+            const fetcher = new DrFetch(fetchFn).withRetry({ delay: 0 });
+
+            // Act.
+            await fetcher.get('x', { retry: false });
+
+            // Assert.
+            expect(fetchFn.calledOnce).to.be.true;
+        });
+        test("Should retry per HTTP request even when the fetcher has no retry policy.", async () => {
+            // Arrange.
+            const fetchFn = sequenceFetch(new Response(null, { status: 503 }), new Response(null, { status: 200 }));
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            await fetcher.get('x', { retry: { delay: 0 } });
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+        });
+        test("Should make clone() return a fetcher with the same retry policy.", async () => {
+            // Arrange.
+            const fetchFn = sequenceFetch(new Response(null, { status: 503 }), new Response(null, { status: 200 }));
+            const fetcher = new DrFetch(fetchFn).withRetry({ delay: 0 }).clone();
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+        });
+    });
+    describe('withDedupe()', () => {
+        function delayedFetch(ms = 5) {
+            return fake((_url: FetchFnUrl, init?: FetchFnInit) => new Promise<Response>((rs, rj) => {
+                const timer = setTimeout(() => rs(new Response(JSON.stringify({ a: 1 }), {
+                    headers: { 'content-type': 'application/json' }
+                })), ms);
+                init?.signal?.addEventListener('abort', () => {
+                    clearTimeout(timer);
+                    rj(init.signal!.reason);
+                });
+            }));
+        }
+        test("Should share a single HTTP request among concurrent identical requests.", async () => {
+            // Arrange.
+            const fetchFn = delayedFetch();
+            const fetcher = new DrFetch(fetchFn).withDedupe().for<200, { a: number; }>();
+
+            // Act.
+            const responses = await Promise.all([fetcher.get('x'), fetcher.get('x'), fetcher.get('x')]);
+
+            // Assert.
+            expect(fetchFn.calledOnce).to.be.true;
+            for (let response of responses) {
+                expect(response.body).to.deep.equal({ a: 1 });
+            }
+            expect(new Set(responses).size).to.equal(3);
+        });
+        [
+            {
+                init1: undefined,
+                url2: 'y',
+                init2: undefined,
+                text: 'the URLs differ',
+            },
+            {
+                init1: { headers: { Authorization: 'Bearer a' } },
+                url2: 'x',
+                init2: { headers: { authorization: 'Bearer b' } },
+                text: 'the values of a selected header differ',
+            },
+            {
+                init1: undefined,
+                url2: 'x',
+                init2: { dedupe: false as const },
+                text: "the 'dedupe' option is false",
+            },
+        ].forEach(tc => {
+            test(`Should not share the HTTP request when ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = delayedFetch();
+                const fetcher = new DrFetch(fetchFn).withDedupe();
+
+                // Act.
+                await Promise.all([fetcher.get('x', tc.init1), fetcher.get(tc.url2, tc.init2)]);
+
+                // Assert.
+                expect(fetchFn.calledTwice).to.be.true;
+            });
+        });
+        test("Should not share POST requests by default.", async () => {
+            // Arrange.
+            const fetchFn = delayedFetch();
+            const fetcher = new DrFetch(fetchFn).withDedupe();
+
+            // Act.
+            await Promise.all([fetcher.post('x', { a: 1 }), fetcher.post('x', { a: 1 })]);
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+        });
+        test("Should not share HTTP requests that are no longer in flight.", async () => {
+            // Arrange.
+            const fetchFn = delayedFetch(0);
+            const fetcher = new DrFetch(fetchFn).withDedupe();
+
+            // Act.
+            await fetcher.get('x');
+            await fetcher.get('x');
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+        });
+        test("Should not abort the shared HTTP request when only one of the callers aborts.", async () => {
+            // Arrange.
+            const fetchFn = delayedFetch();
+            const fetcher = new DrFetch(fetchFn).abortable().withDedupe().for<200, { a: number; }>();
+            const ac = new AbortController();
+
+            // Act.
+            const request1 = fetcher.get('x', { signal: ac.signal });
+            const request2 = fetcher.get('x');
+            ac.abort();
+            const [response1, response2] = await Promise.all([request1, request2]);
+
+            // Assert.
+            expect(fetchFn.calledOnce).to.be.true;
+            expect(response1.aborted).to.be.true;
+            expect(response2.aborted).to.be.false;
+            expect(!response2.aborted && response2.body).to.deep.equal({ a: 1 });
+        });
+        test("Should not share an aborted HTTP request with a caller that arrives after every caller aborted.", async () => {
+            // Arrange.
+            const fetchFn = fake((_url: FetchFnUrl, init?: FetchFnInit) => new Promise<Response>((rs, rj) => {
+                const timer = setTimeout(() => rs(new Response(JSON.stringify({ a: 1 }), {
+                    headers: { 'content-type': 'application/json' }
+                })), 5);
+                // Like fetch(), reject some time after the signal is aborted.
+                init?.signal?.addEventListener('abort', () => {
+                    clearTimeout(timer);
+                    setTimeout(() => rj(init.signal!.reason));
+                });
+            }));
+            const fetcher = new DrFetch(fetchFn).abortable().withDedupe().for<200, { a: number; }>();
+            const ac = new AbortController();
+            const request1 = fetcher.get('x', { signal: ac.signal });
+            await new Promise(rs => setTimeout(rs, 1));
+            ac.abort();
+
+            // Act.
+            const response2 = await fetcher.get('x');
+
+            // Assert.
+            expect((await request1).aborted).to.be.true;
+            expect(fetchFn.calledTwice).to.be.true;
+            expect(response2.aborted).to.be.false;
+            expect(!response2.aborted && response2.body).to.deep.equal({ a: 1 });
+        });
+        test("Should not start a shared HTTP request for a caller whose signal is already aborted.", async () => {
+            // Arrange.
+            const fetchFn = delayedFetch();
+            const fetcher = new DrFetch(fetchFn).abortable().withDedupe().for<200, { a: number; }>();
+            const unhandled = fake();
+            process.on('unhandledRejection', unhandled);
+            try {
+                // Act.
+                const response = await fetcher.get('x', { signal: AbortSignal.abort() });
+                await new Promise(rs => setTimeout(rs, 10));
+
+                // Assert.
+                expect(response.aborted).to.be.true;
+                expect(fetchFn.called).to.be.false;
+                expect(unhandled.called).to.be.false;
+            }
+            finally {
+                process.off('unhandledRejection', unhandled);
+            }
+        });
+        test("Should abort the shared HTTP request when all of the callers abort.", async () => {
+            // Arrange.
+            const fetchFn = delayedFetch(1000);
+            const fetcher = new DrFetch(fetchFn).abortable().withDedupe().for<200, { a: number; }>();
+            const ac1 = new AbortController();
+            const ac2 = new AbortController();
+
+            // Act.
+            const requests = Promise.all([fetcher.get('x', { signal: ac1.signal }), fetcher.get('x', { signal: ac2.signal })]);
+            ac1.abort();
+            ac2.abort();
+            const responses = await requests;
+
+            // Assert.
+            expect(responses.every(r => r.aborted)).to.be.true;
+            expect(fetchFn.args[0][1]!.signal!.aborted).to.be.true;
+        });
+        test("Should make clone() return a fetcher that also deduplicates.", async () => {
+            // Arrange.
+            const fetchFn = delayedFetch();
+            const fetcher = new DrFetch(fetchFn).withDedupe().clone();
+
+            // Act.
+            await Promise.all([fetcher.get('x'), fetcher.get('x')]);
+
+            // Assert.
+            expect(fetchFn.calledOnce).to.be.true;
+        });
+    });
+    describe('withCache()', () => {
+        function cacheableFetch(...responses: { body?: unknown; status?: number; headers?: Record<string, string>; }[]) {
+            let i = 0;
+            return fake((_url: FetchFnUrl, _init?: FetchFnInit) => {
+                const r = responses[Math.min(i++, responses.length - 1)];
+                return Promise.resolve(new Response(r.body === undefined ? null : JSON.stringify(r.body), {
+                    status: r.status ?? 200,
+                    headers: { 'content-type': 'application/json', ...r.headers },
+                }));
+            });
+        }
+        test("Should serve fresh entries from the cache without calling the data-fetching function.", async () => {
+            // Arrange.
+            const fetchFn = cacheableFetch({ body: { a: 1 }, headers: { 'cache-control': 'max-age=60' } });
+            const fetcher = new DrFetch(fetchFn).withCache().for<200, { a: number; }>();
+            await fetcher.get('x');
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(fetchFn.calledOnce).to.be.true;
+            expect(response.fromCache).to.be.true;
+            expect(response.body).to.deep.equal({ a: 1 });
+        });
+        test("Should not serve an entry to a request that asks for a different response type.", async () => {
+            // Arrange.
+            const fetchFn = cacheableFetch({ body: { a: 1 }, headers: { 'cache-control': 'max-age=60' } });
+            const fetcher = new DrFetch(fetchFn).withCache().for<200, { a: number; }>();
+            await fetcher.get('x', { responseType: 'text' });
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+            expect(response.fromCache).to.be.undefined;
+            expect(response.body).to.deep.equal({ a: 1 });
+        });
+        [
+            {
+                headers: { 'cache-control': 'no-store, max-age=60' },
+                text: "'no-store'",
+            },
+            {
+                headers: {} as Record<string, string>,
+                text: 'no freshness information or validators',
+            },
+        ].forEach(tc => {
+            test(`Should not cache responses with ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = cacheableFetch({ body: { a: 1 }, headers: tc.headers });
+                const fetcher = new DrFetch(fetchFn).withCache();
+                await fetcher.get('x');
+
+                // Act.
+                await fetcher.get('x');
+
+                // Assert.
+                expect(fetchFn.calledTwice).to.be.true;
+            });
+        });
+        [
+            {
+                headers1: { 'accept-language': 'en' },
+                headers2: { 'accept-language': 'es' },
+                expectedCalls: 2,
+                text: 'not serve an entry to a request with a different value for a header named by Vary',
+            },
+            {
+                headers1: { 'accept-language': 'en' },
+                headers2: { 'Accept-Language': 'en' } as Record<string, string>,
+                expectedCalls: 1,
+                text: 'serve an entry to a request with the same values for the headers named by Vary',
+            },
+            {
+                headers1: { 'accept-language': 'en' },
+                headers2: undefined,
+                expectedCalls: 2,
+                text: 'not serve an entry to a request that lacks a header named by Vary',
+            },
+        ].forEach(tc => {
+            test(`Should ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = cacheableFetch({
+                    body: { a: 1 },
+                    headers: { 'cache-control': 'max-age=60', vary: 'Accept-Language' }
+                });
+                const fetcher = new DrFetch(fetchFn).withCache();
+                await fetcher.get('x', { headers: tc.headers1 });
+
+                // Act.
+                await fetcher.get('x', { headers: tc.headers2 });
+
+                // Assert.
+                expect(fetchFn.callCount).to.equal(tc.expectedCalls);
+            });
+        });
+        test("Should not serve an entry to a request with a different authorization header.", async () => {
+            // Arrange.
+            const fetchFn = cacheableFetch({ body: { a: 1 }, headers: { 'cache-control': 'max-age=60' } });
+            const fetcher = new DrFetch(fetchFn).withCache().for<200, { a: number; }>();
+            await fetcher.get('x', { headers: { authorization: 'Bearer user1' } });
+
+            // Act.
+            const response = await fetcher.get('x', { headers: { authorization: 'Bearer user2' } });
+            const again = await fetcher.get('x', { headers: { authorization: 'Bearer user1' } });
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+            expect(response.fromCache).to.be.undefined;
+            expect(again.fromCache).to.be.true;
+        });
+        test("Should not serve an entry to a request with a different token from withAuth().", async () => {
+            // Arrange.
+            let token = 'user1';
+            const fetchFn = cacheableFetch({ body: { a: 1 }, headers: { 'cache-control': 'max-age=60' } });
+            const fetcher = new DrFetch(fetchFn).withCache().withAuth({ getToken: () => token }).for<200, { a: number; }>();
+            await fetcher.get('x');
+            token = 'user2';
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+            expect(response.fromCache).to.be.undefined;
+        });
+        test("Should not give the credentials to the cache store.", async () => {
+            // Arrange.
+            const store = new MemoryCacheStore();
+            const fetchFn = cacheableFetch({ body: { a: 1 }, headers: { 'cache-control': 'max-age=60' } });
+            const fetcher = new DrFetch(fetchFn).withCache({ store });
+            const set = fake(store.set.bind(store));
+            store.set = set;
+
+            // Act.
+            await fetcher.get('x', { headers: { authorization: 'Bearer secret' } });
+
+            // Assert.
+            expect(set.calledOnce).to.be.true;
+            expect(JSON.stringify(set.firstCall.args)).not.to.include('secret');
+        });
+        test("Should bypass the cache for requests with credentials when Web Crypto is not available.", async () => {
+            // Arrange.
+            const store = new MemoryCacheStore();
+            const fetchFn = cacheableFetch({ body: { a: 1 }, headers: { 'cache-control': 'max-age=60' } });
+            const fetcher = new DrFetch(fetchFn).safe().withCache({ store }).for<200, { a: number; }>();
+            const set = fake(store.set.bind(store));
+            store.set = set;
+            const cryptoDescriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto')!;
+            Object.defineProperty(globalThis, 'crypto', { value: {}, configurable: true });
+            try {
+                // Act.
+                const response = await fetcher.get('x', { headers: { authorization: 'Bearer secret' } });
+
+                // Assert.
+                expect(!response.failed && response.body).to.deep.equal({ a: 1 });
+                expect(set.called).to.be.false;
+            }
+            finally {
+                Object.defineProperty(globalThis, 'crypto', cryptoDescriptor);
+            }
+        });
+        [
+            {
+                shared: undefined,
+                expectedCalls: 1,
+                text: 'cache',
+            },
+            {
+                shared: true,
+                expectedCalls: 2,
+                text: 'not cache',
+            },
+        ].forEach(tc => {
+            test(`Should ${tc.text} private responses when the 'shared' option is ${tc.shared}.`, async () => {
+                // Arrange.
+                const fetchFn = cacheableFetch({ body: { a: 1 }, headers: { 'cache-control': 'private, max-age=60' } });
+                const fetcher = new DrFetch(fetchFn).withCache({ shared: tc.shared });
+                await fetcher.get('x');
+
+                // Act.
+                await fetcher.get('x');
+
+                // Assert.
+                expect(fetchFn.callCount).to.equal(tc.expectedCalls);
+            });
+        });
+        test("Should not cache responses of POST requests.", async () => {
+            // Arrange.
+            const fetchFn = cacheableFetch({ body: { a: 1 }, headers: { 'cache-control': 'max-age=60' } });
+            const fetcher = new DrFetch(fetchFn).withCache();
+            await fetcher.post('x', { a: 1 });
+
+            // Act.
+            await fetcher.post('x', { a: 1 });
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+        });
+        [
+            {
+                headers: { etag: '"v1"' } as Record<string, string>,
+                requestHeader: 'if-none-match',
+                expectedValue: '"v1"',
+            },
+            {
+                headers: { 'last-modified': 'Wed, 21 Oct 2015 07:28:00 GMT' } as Record<string, string>,
+                requestHeader: 'if-modified-since',
+                expectedValue: 'Wed, 21 Oct 2015 07:28:00 GMT',
+            },
+        ].forEach(tc => {
+            test(`Should revalidate stale entries using the '${tc.requestHeader}' header and serve the cached body on 304.`, async () => {
+                // Arrange.
+                const fetchFn = cacheableFetch(
+                    { body: { a: 1 }, headers: { 'cache-control': 'no-cache', ...tc.headers } },
+                    { status: 304 }
+                );
+                const fetcher = new DrFetch(fetchFn).withCache().for<200, { a: number; }>();
+                await fetcher.get('x');
+
+                // Act.
+                const response = await fetcher.get('x');
+
+                // Assert.
+                expect(fetchFn.calledTwice).to.be.true;
+                expect(getHeader(fetchFn.args[1][1]!.headers!, tc.requestHeader)).to.equal(tc.expectedValue);
+                expect(response.status).to.equal(200);
+                expect(response.fromCache).to.be.true;
+                expect(response.body).to.deep.equal({ a: 1 });
+            });
+        });
+        test("Should replace the cached entry when revalidation returns a new response.", async () => {
+            // Arrange.
+            const fetchFn = cacheableFetch(
+                { body: { a: 1 }, headers: { etag: '"v1"' } },
+                { body: { a: 2 }, headers: { etag: '"v2"', 'cache-control': 'max-age=60' } }
+            );
+            const fetcher = new DrFetch(fetchFn).withCache().for<200, { a: number; }>();
+            await fetcher.get('x');
+            await fetcher.get('x');
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+            expect(response.body).to.deep.equal({ a: 2 });
+        });
+        test("Should serve stale entries within the stale-while-revalidate window while revalidating in the background.", async () => {
+            // Arrange.
+            const fetchFn = cacheableFetch(
+                { body: { a: 1 }, headers: { 'cache-control': 'max-age=0, stale-while-revalidate=60' } },
+                { body: { a: 2 }, headers: { 'cache-control': 'max-age=60' } }
+            );
+            const fetcher = new DrFetch(fetchFn).withCache().for<200, { a: number; }>();
+            await fetcher.get('x');
+
+            // Act.
+            const response1 = await fetcher.get('x');
+            await new Promise(rs => setTimeout(rs, 0));
+            const response2 = await fetcher.get('x');
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+            expect(response1.fromCache).to.be.true;
+            expect(response1.body).to.deep.equal({ a: 1 });
+            expect(response2.body).to.deep.equal({ a: 2 });
+        });
+        test("Should bypass the cache when the 'cache' option is 'no-store'.", async () => {
+            // Arrange.
+            const fetchFn = cacheableFetch({ body: { a: 1 }, headers: { 'cache-control': 'max-age=60' } });
+            const fetcher = new DrFetch(fetchFn).withCache();
+            await fetcher.get('x');
+
+            // Act.
+            await fetcher.get('x', { cache: 'no-store' });
+
+            // Assert.
+            expect(fetchFn.calledTwice).to.be.true;
+        });
+        test("Should use the provided cache store.", async () => {
+            // Arrange.
+            const fetchFn = cacheableFetch({ body: { a: 1 }, headers: { 'cache-control': 'max-age=60' } });
+            const store = new MemoryCacheStore();
+            const fetcher = new DrFetch(fetchFn).withCache({ store });
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(store.size).to.equal(1);
+        });
+        test("Should make clone() return a fetcher that shares the cache.", async () => {
+            // Arrange.
+            const fetchFn = cacheableFetch({ body: { a: 1 }, headers: { 'cache-control': 'max-age=60' } });
+            const fetcher = new DrFetch(fetchFn).withCache();
+            await fetcher.get('x');
+
+            // Act.
+            await fetcher.clone().get('x');
+
+            // Assert.
+            expect(fetchFn.calledOnce).to.be.true;
+        });
+        test("Should keep the URL and the redirection flag of cached responses.", async () => {
+            // Arrange.
+            const response = new Response(JSON.stringify({ a: 1 }), {
+                headers: { 'content-type': 'application/json', 'cache-control': 'max-age=60' },
+            });
+            Object.defineProperty(response, 'url', { value: 'https://example.com/final' });
+            Object.defineProperty(response, 'redirected', { value: true });
+            const fetchFn = fake.resolves(response);
+            const fetcher = new DrFetch(fetchFn).withCache().for<200, { a: number; }>();
+            await fetcher.get('x');
+
+            // Act.
+            const result = await fetcher.get('x');
+
+            // Assert.
+            expect(result.fromCache).to.equal(true);
+            expect(result.url).to.equal('https://example.com/final');
+            expect(result.redirected).to.equal(true);
+        });
+    });
+    describe('withTimeout()', () => {
+        test("Should throw an error if the fetcher is not in abortable mode.", () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            const act = () => fetcher.withTimeout(100);
+
+            // Assert.
+            expect(act).to.throw();
+        });
+        test("Should resolve to a timed-out result when the HTTP request takes longer than the timeout.", async () => {
+            // Arrange.
+            const fetcher = new DrFetch(slowFetch(1000)).abortable().withTimeout(5).for<StatusCode, {}>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.aborted).to.be.true;
+            expect(response.aborted && response.timedOut).to.be.true;
+            expect(response.aborted && response.error.name).to.equal('TimeoutError');
+        });
+        test("Should resolve to a regular result when the HTTP request finishes before the timeout.", async () => {
+            // Arrange.
+            const fetcher = new DrFetch(slowFetch(0)).abortable().withTimeout(1000).for<StatusCode, {}>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.aborted).to.be.false;
+        });
+        test("Should resolve to an aborted result that is not timed out when the caller's signal is aborted.", async () => {
+            // Arrange.
+            const fetcher = new DrFetch(slowFetch(1000)).abortable().withTimeout(500).for<StatusCode, {}>();
+            const ac = new AbortController();
+
+            // Act.
+            const request = fetcher.get('x', { signal: ac.signal });
+            ac.abort();
+            const response = await request;
+
+            // Assert.
+            expect(response.aborted).to.be.true;
+            expect(response.aborted && response.timedOut).to.be.false;
+        });
+        test("Should use the per-call timeout over the fetcher's timeout.", async () => {
+            // Arrange.
+            const fetcher = new DrFetch(slowFetch(1000)).abortable().withTimeout(5000).for<StatusCode, {}>();
+
+            // Act.
+            const response = await fetcher.get('x', { timeout: 5 });
+
+            // Assert.
+            expect(response.aborted && response.timedOut).to.be.true;
+        });
+        test("Should not time out when the per-call timeout is 'false'.", async () => {
+            // Arrange.
+            const fetcher = new DrFetch(slowFetch(20)).abortable().withTimeout(1).for<StatusCode, {}>();
+
+            // Act.
+            const response = await fetcher.get('x', { timeout: false });
+
+            // Assert.
+            expect(response.aborted).to.be.false;
+        });
+        [
+            10,
+            0,
+        ].forEach(timeout => {
+            test(`Should throw an error if a per-call timeout of ${timeout} is used without calling 'abortable()'.`, async () => {
+                // Arrange.
+                const fetcher = new DrFetch(slowFetch(0));
+                let error: unknown;
+
+                // Act.
+                try {
+                    await fetcher.get('x', { timeout });
+                }
+                catch (err: unknown) {
+                    error = err;
+                }
+
+                // Assert.
+                expect(error).to.be.instanceOf(Error);
+                expect((error as Error).message).to.include('abortable()');
+            });
+        });
+        test("Should combine the timeout with 'autoAbort'.", async () => {
+            // Arrange.
+            const fetcher = new DrFetch(slowFetch(1000)).abortable().withTimeout(500).for<StatusCode, {}>();
+
+            // Act.
+            const request1 = fetcher.get('x', { autoAbort: 'abc' });
+            const request2 = fetcher.get('x', { autoAbort: 'abc', timeout: 5 });
+            const [response1, response2] = await Promise.all([request1, request2]);
+
+            // Assert.
+            expect(response1.aborted && response1.timedOut).to.be.false;
+            expect(response2.aborted && response2.timedOut).to.be.true;
+        });
+        test("Should make clone() return a fetcher with the same timeout.", async () => {
+            // Arrange.
+            const fetcher = new DrFetch(slowFetch(1000)).abortable().withTimeout(5).for<StatusCode, {}>().clone();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.aborted && response.timedOut).to.be.true;
+        });
+    });
+    describe('Events', () => {
+        [
+            'onRequest',
+            'onResponse',
+            'onBodyParsed',
+            'onAbort',
+            'onError',
+            'onAutoAbortSuperseded',
+        ].forEach(method => {
+            test(`Should return the fetcher object from ${method}().`, () => {
+                // Arrange.
+                const fetcher = new DrFetch(jsonFetch());
+
+                // Act.
+                const result = (fetcher as any)[method](() => { });
+
+                // Assert.
+                expect(result).to.equal(fetcher);
+            });
+        });
+        test("Should emit the request event with the resolved URL, the method and the options.", async () => {
+            // Arrange.
+            const listener = fake();
+            const fetcher = new DrFetch(jsonFetch())
+                .withBaseUrl('https://example.com/api')
+                .onRequest(listener);
+
+            // Act.
+            await fetcher.post('todos/:id', { done: true }, { params: { id: 1 }, query: { v: 2 } });
+
+            // Assert.
+            expect(listener.calledOnce).to.be.true;
+            const event = listener.firstCall.args[0];
+            expect(event.url).to.equal('https://example.com/api/todos/1?v=2');
+            expect(event.method).to.equal('POST');
+            expect(event.init.body).to.equal('{"done":true}');
+            expect(event.timing.start).to.be.a('number');
+            expect(event).not.to.have.property('autoAbortKey');
+        });
+        test("Should emit the response and bodyParsed events with the status code and increasing timing.", async () => {
+            // Arrange.
+            const onResponse = fake();
+            const onBodyParsed = fake();
+            const fetcher = new DrFetch(jsonFetch(201))
+                .onResponse(onResponse)
+                .onBodyParsed(onBodyParsed);
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            const responseEvent = onResponse.firstCall.args[0];
+            const bodyEvent = onBodyParsed.firstCall.args[0];
+            expect(responseEvent).to.include({ url: 'x', method: 'GET', status: 201, fromCache: false });
+            expect(responseEvent.headers.get('content-type')).to.equal('application/json');
+            expect(responseEvent.timing).not.to.have.property('bodyParsed');
+            expect(bodyEvent).to.include({ status: 201, processor: 'json' });
+            expect(bodyEvent.body).to.deep.equal({ a: 1 });
+            expect(bodyEvent.timing.start).to.be.at.most(bodyEvent.timing.headersReceived);
+            expect(bodyEvent.timing.headersReceived).to.be.at.most(bodyEvent.timing.bodyParsed);
+            expect(onResponse.calledBefore(onBodyParsed)).to.be.true;
+        });
+        test("Should emit the response event for results taken out of the HTTP cache.", async () => {
+            // Arrange.
+            const onResponse = fake();
+            const fetcher = new DrFetch(jsonFetch(200, { a: 1 }, { 'cache-control': 'max-age=60' }))
+                .withCache()
+                .onResponse(onResponse);
+            await fetcher.get('x');
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(onResponse.calledTwice).to.be.true;
+            expect(onResponse.secondCall.args[0].fromCache).to.be.true;
+        });
+        [
+            false,
+            true,
+        ].forEach(safe => {
+            test(`Should emit the error event when the HTTP request fails${safe ? ' in safe mode' : ''}.`, async () => {
+                // Arrange.
+                const error = new TypeError('Failed to fetch.');
+                const fetchFn = fake.rejects(error);
+                const onError = fake();
+                const fetcher = new DrFetch(fetchFn).onError(onError);
+                if (safe) {
+                    fetcher.safe();
+                }
+
+                // Act.
+                try {
+                    await fetcher.get('x');
+                }
+                catch {
+                    // Not relevant.
+                }
+
+                // Assert.
+                expect(onError.calledOnce).to.be.true;
+                expect(onError.firstCall.args[0]).to.include({ kind: 'network', error, url: 'x' });
+            });
+        });
+        test("Should emit the abort event when the HTTP request times out.", async () => {
+            // Arrange.
+            const onAbort = fake();
+            const onError = fake();
+            const fetcher = new DrFetch(slowFetch(1000))
+                .abortable()
+                .withTimeout(5)
+                .onAbort(onAbort)
+                .onError(onError);
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(onAbort.calledOnce).to.be.true;
+            expect(onAbort.firstCall.args[0].timedOut).to.be.true;
+            expect(onError.called).to.be.false;
+        });
+        test("Should emit the autoAbortSuperseded and abort events for superseded HTTP requests.", async () => {
+            // Arrange.
+            const onSuperseded = fake();
+            const onAbort = fake();
+            const fetcher = new DrFetch(slowFetch(20))
+                .abortable()
+                .onAutoAbortSuperseded(onSuperseded)
+                .onAbort(onAbort);
+
+            // Act.
+            const first = fetcher.get('first', { autoAbort: 'search' });
+            const second = fetcher.get('second', { autoAbort: 'search' });
+            await Promise.all([first, second]);
+
+            // Assert.
+            expect(onSuperseded.calledOnce).to.be.true;
+            expect(onSuperseded.firstCall.args[0]).to.include({ url: 'first', autoAbortKey: 'search' });
+            expect(onAbort.calledOnce).to.be.true;
+            expect(onSuperseded.calledBefore(onAbort)).to.be.true;
+        });
+        test("Should ignore errors thrown by listeners.", async () => {
+            // Arrange.
+            const fetcher = new DrFetch(jsonFetch())
+                .onRequest(() => { throw new Error('Listener error.'); })
+                .for<200, { a: number; }>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.body).to.deep.equal({ a: 1 });
+        });
+        test("Should not call listeners removed with off().", async () => {
+            // Arrange.
+            const listener = fake();
+            const fetcher = new DrFetch(jsonFetch()).onRequest(listener);
+
+            // Act.
+            fetcher.off('request', listener);
+            await fetcher.get('x');
+
+            // Assert.
+            expect(listener.called).to.be.false;
+        });
+        [
+            { options: undefined, text: 'no options', expected: true },
+            { options: { includeListeners: true }, text: 'includeListeners = true', expected: true },
+            { options: { includeListeners: false }, text: 'includeListeners = false', expected: false },
+        ].forEach(tc => {
+            test(`Should ${tc.expected ? '' : 'not '}copy the listeners in clone() with ${tc.text}.`, async () => {
+                // Arrange.
+                const listener = fake();
+                const fetcher = new DrFetch(jsonFetch()).onRequest(listener);
+
+                // Act.
+                const clone = fetcher.clone(tc.options);
+                await clone.get('x');
+
+                // Assert.
+                expect(listener.called).to.equal(tc.expected);
+            });
+        });
+        test("Should not share the listeners of the clone with the original fetcher.", async () => {
+            // Arrange.
+            const listener = fake();
+            const fetcher = new DrFetch(jsonFetch());
+            const clone = fetcher.clone();
+
+            // Act.
+            clone.onRequest(listener);
+            await fetcher.get('x');
+
+            // Assert.
+            expect(listener.called).to.be.false;
+        });
+    });
+    describe('withAuth()', () => {
+        function authFetch(validToken: () => string) {
+            return fake((_url: FetchFnUrl, init?: FetchFnInit) => Promise.resolve(new Response(null, {
+                status: new Headers(init?.headers).get('authorization') === `Bearer ${validToken()}` ? 200 : 401
+            })));
+        }
+        function authorizationOf(call: { args: any[] }) {
+            return new Headers(call.args[1]?.headers).get('authorization');
+        }
+        [
+            {
+                scheme: undefined,
+                expected: 'Bearer abc',
+            },
+            {
+                scheme: 'Token',
+                expected: 'Token abc',
+            },
+            {
+                scheme: '',
+                expected: 'abc',
+            },
+        ].forEach(tc => {
+            test(`Should send the token with the '${tc.expected}' header value when the scheme is ${tc.scheme === undefined ? 'not specified' : `'${tc.scheme}'`}.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => 'abc', scheme: tc.scheme }).for<200 | 401, null>();
+
+                // Act.
+                await fetcher.get('x');
+
+                // Assert.
+                expect(authorizationOf(fetchFn.firstCall)).to.equal(tc.expected);
+            });
+        });
+        [
+            {
+                getToken: () => null,
+                init: undefined,
+                text: 'there is no token',
+            },
+            {
+                getToken: () => 'abc',
+                init: { auth: false as const },
+                text: "the 'auth' option is false",
+            },
+        ].forEach(tc => {
+            test(`Should not send the authorization header when ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn).withAuth({ getToken: tc.getToken }).for<200 | 401, null>();
+
+                // Act.
+                await fetcher.get('x', tc.init);
+
+                // Assert.
+                expect(authorizationOf(fetchFn.firstCall)).to.equal(null);
+            });
+        });
+        test("Should not replace an authorization header specified by the HTTP request.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null, { status: 401 }));
+            const refreshToken = fake.resolves(undefined);
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => 'abc', refreshToken }).for<200 | 401, null>();
+
+            // Act.
+            const response = await fetcher.get('x', { headers: { Authorization: 'Basic xyz' } });
+
+            // Assert.
+            expect(authorizationOf(fetchFn.firstCall)).to.equal('Basic xyz');
+            expect(response.status).to.equal(401);
+            expect(refreshToken.called).to.be.false;
+        });
+        test("Should obtain the token asynchronously.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => Promise.resolve('abc') }).for<200 | 401, null>();
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(authorizationOf(fetchFn.firstCall)).to.equal('Bearer abc');
+        });
+        test("Should refresh the token and send the HTTP request again when the response has status code 401.", async () => {
+            // Arrange.
+            let token = 'old';
+            const fetchFn = authFetch(() => 'new');
+            const refreshToken = fake(async () => { token = 'new'; });
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => token, refreshToken }).for<200 | 401, null>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.status).to.equal(200);
+            expect(refreshToken.calledOnce).to.be.true;
+            expect(fetchFn.calledTwice).to.be.true;
+            expect(authorizationOf(fetchFn.firstCall)).to.equal('Bearer old');
+            expect(authorizationOf(fetchFn.secondCall)).to.equal('Bearer new');
+        });
+        test("Should refresh the token only once per HTTP request.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null, { status: 401 }));
+            const refreshToken = fake.resolves(undefined);
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => 'abc', refreshToken }).for<200 | 401, null>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.status).to.equal(401);
+            expect(refreshToken.calledOnce).to.be.true;
+            expect(fetchFn.calledTwice).to.be.true;
+        });
+        test("Should return the 401 response when the token refresh fails.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null, { status: 401 }));
+            const refreshToken = fake.rejects(new Error('Refresh failed.'));
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => 'abc', refreshToken }).for<200 | 401, null>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.status).to.equal(401);
+            expect(fetchFn.calledOnce).to.be.true;
+        });
+        test("Should return the 401 response when there is no token refresh function.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null, { status: 401 }));
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => 'abc' }).for<200 | 401, null>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.status).to.equal(401);
+            expect(fetchFn.calledOnce).to.be.true;
+        });
+        test("Should refresh the token once for concurrent HTTP requests and replay all of them.", async () => {
+            // Arrange.
+            let token = 'old';
+            const fetchFn = authFetch(() => 'new');
+            const refreshToken = fake(async () => {
+                await new Promise(rs => setTimeout(rs, 5));
+                token = 'new';
+            });
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => token, refreshToken }).for<200 | 401, null>();
+
+            // Act.
+            const responses = await Promise.all([fetcher.get('a'), fetcher.get('b'), fetcher.get('c')]);
+
+            // Assert.
+            expect(refreshToken.calledOnce).to.be.true;
+            expect(responses.map(r => r.status)).to.deep.equal([200, 200, 200]);
+            expect(fetchFn.callCount).to.equal(6);
+        });
+        test("Should queue new HTTP requests while the token is being refreshed.", async () => {
+            // Arrange.
+            let token = 'old';
+            let refreshStarted!: () => void;
+            const started = new Promise<void>(rs => refreshStarted = rs);
+            const fetchFn = authFetch(() => 'new');
+            const refreshToken = fake(async () => {
+                refreshStarted();
+                await new Promise(rs => setTimeout(rs, 5));
+                token = 'new';
+            });
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => token, refreshToken }).for<200 | 401, null>();
+            const first = fetcher.get('a');
+            await started;
+
+            // Act.
+            const response = await fetcher.get('b');
+
+            // Assert.
+            expect(response.status).to.equal(200);
+            expect((await first).status).to.equal(200);
+            expect(refreshToken.calledOnce).to.be.true;
+            expect(fetchFn.callCount).to.equal(3);
+            expect(authorizationOf(fetchFn.getCall(1))).to.equal('Bearer new');
+        });
+        test("Should not refresh the token again when it was refreshed after the HTTP request was sent.", async () => {
+            // Arrange.
+            let token = 'old';
+            let respondSlow!: () => void;
+            const slowResponse = new Promise<void>(rs => respondSlow = rs);
+            const fetchFn = fake(async (url: FetchFnUrl, init?: FetchFnInit) => {
+                if (url === 'slow') {
+                    await slowResponse;
+                }
+                const authorized = new Headers(init?.headers).get('authorization') === 'Bearer new';
+                return new Response(null, { status: authorized ? 200 : 401 });
+            });
+            const refreshToken = fake(async () => { token = 'new'; });
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => token, refreshToken }).for<200 | 401, null>();
+            const slow = fetcher.get('slow');
+            await fetcher.get('fast');
+
+            // Act.
+            respondSlow();
+            const response = await slow;
+
+            // Assert.
+            expect(response.status).to.equal(200);
+            expect(refreshToken.calledOnce).to.be.true;
+        });
+        test("Should share the token refreshes with clones.", async () => {
+            // Arrange.
+            let token = 'old';
+            const fetchFn = authFetch(() => 'new');
+            const refreshToken = fake(async () => {
+                await new Promise(rs => setTimeout(rs, 5));
+                token = 'new';
+            });
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => token, refreshToken }).for<200 | 401, null>();
+            const clone = fetcher.clone();
+
+            // Act.
+            await Promise.all([fetcher.get('a'), clone.get('b')]);
+
+            // Assert.
+            expect(refreshToken.calledOnce).to.be.true;
+        });
+        test("Should keep the headers of a request object given as URL.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => 'abc' });
+            const request = new Request('https://example.com/x', { headers: { accept: 'text/plain', 'x-test': 'abc' } });
+
+            // Act.
+            await fetcher.fetch(request);
+
+            // Assert.
+            const headers = new Headers(fetchFn.firstCall.args[1]?.headers);
+            expect(headers.get('x-test')).to.equal('abc');
+            expect(headers.get('authorization')).to.equal('Bearer abc');
+        });
+        test("Should not send the body of a request object twice.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null, { status: 401 }));
+            const refreshToken = fake.resolves(undefined);
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => 'abc', refreshToken }).for<200 | 401, null>();
+            const request = new Request('https://example.com/x', { method: 'POST', body: 'data' });
+
+            // Act.
+            const response = await fetcher.fetch(request);
+
+            // Assert.
+            expect(response.status).to.equal(401);
+            expect(refreshToken.called).to.be.false;
+            expect(fetchFn.calledOnce).to.be.true;
+        });
+        test("Should not replay an HTTP request with the rejected token after a failed refresh.", async () => {
+            // Arrange.
+            let respondSlow!: () => void;
+            const slowResponse = new Promise<void>(rs => respondSlow = rs);
+            const fetchFn = fake(async (url: FetchFnUrl) => {
+                if (url === 'slow') {
+                    await slowResponse;
+                }
+                return new Response(null, { status: 401 });
+            });
+            const refreshToken = fake.rejects(new Error('Refresh failed.'));
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => 'abc', refreshToken }).for<200 | 401, null>();
+            const slow = fetcher.get('slow');
+            await fetcher.get('fast');
+
+            // Act.
+            respondSlow();
+            const response = await slow;
+
+            // Assert.
+            expect(response.status).to.equal(401);
+            expect(fetchFn.calledTwice).to.be.true;
+        });
+        test("Should not send a stream body twice.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null, { status: 401 }));
+            const refreshToken = fake.resolves(undefined);
+            const fetcher = new DrFetch(fetchFn).withAuth({ getToken: () => 'abc', refreshToken }).for<200 | 401, null>();
+
+            // Act.
+            const response = await fetcher.post('x', new Blob(['data']).stream());
+
+            // Assert.
+            expect(response.status).to.equal(401);
+            expect(refreshToken.called).to.be.false;
+            expect(fetchFn.calledOnce).to.be.true;
+        });
+    });
+    describe('withCsrf()', () => {
+        function csrfOf(call: { args: any[] }, header = 'x-xsrf-token') {
+            return new Headers(call.args[1]?.headers).get(header);
+        }
+        function withDocument(document: object, fn: () => Promise<void>) {
+            return async () => {
+                (globalThis as any).document = document;
+                try {
+                    await fn();
+                }
+                finally {
+                    delete (globalThis as any).document;
+                }
+            };
+        }
+        [
+            'POST',
+            'PUT',
+            'PATCH',
+            'DELETE',
+        ].forEach(method => {
+            test(`Should send the CSRF token with ${method} requests.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn).withCsrf({ source: () => 'abc' });
+
+                // Act.
+                await fetcher.fetch('x', { method });
+
+                // Assert.
+                expect(csrfOf(fetchFn.firstCall)).to.equal('abc');
+            });
+        });
+        [
+            'GET',
+            'HEAD',
+            'OPTIONS',
+        ].forEach(method => {
+            test(`Should not send the CSRF token with ${method} requests.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn).withCsrf({ source: () => 'abc' });
+
+                // Act.
+                await fetcher.fetch('x', { method });
+
+                // Assert.
+                expect(csrfOf(fetchFn.firstCall)).to.equal(null);
+            });
+        });
+        test("Should send the CSRF token with the specified methods and header.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withCsrf({ source: () => 'abc', header: 'X-CSRF-Token', methods: ['get'] });
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(csrfOf(fetchFn.firstCall, 'x-csrf-token')).to.equal('abc');
+        });
+        test("Should obtain the CSRF token asynchronously.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withCsrf({ source: () => Promise.resolve('abc') });
+
+            // Act.
+            await fetcher.post('x');
+
+            // Assert.
+            expect(csrfOf(fetchFn.firstCall)).to.equal('abc');
+        });
+        test("Should read the CSRF token from the XSRF-TOKEN cookie by default.", withDocument({ cookie: 'a=1; XSRF-TOKEN=ab%2Bc; b=2' }, async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withCsrf();
+
+            // Act.
+            await fetcher.post('x');
+
+            // Assert.
+            expect(csrfOf(fetchFn.firstCall)).to.equal('ab+c');
+        }));
+        test("Should read the CSRF token from the specified meta tag.", withDocument({
+            querySelector: (selector: string) => selector === 'meta[name="csrf-token"]' ? { getAttribute: () => 'abc' } : null
+        }, async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withCsrf({ source: { meta: 'csrf-token' } });
+
+            // Act.
+            await fetcher.post('x');
+
+            // Assert.
+            expect(csrfOf(fetchFn.firstCall)).to.equal('abc');
+        }));
+        [
+            {
+                source: () => null,
+                text: 'the source returns no token',
+            },
+            {
+                source: { cookie: 'XSRF-TOKEN' },
+                text: 'there is no document',
+            },
+        ].forEach(tc => {
+            test(`Should not send the CSRF token header when ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn).withCsrf({ source: tc.source });
+
+                // Act.
+                await fetcher.post('x');
+
+                // Assert.
+                expect(csrfOf(fetchFn.firstCall)).to.equal(null);
+            });
+        });
+        test("Should not replace a CSRF token header specified by the HTTP request.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withCsrf({ source: () => 'abc' });
+
+            // Act.
+            await fetcher.post('x', undefined, { headers: { 'X-XSRF-TOKEN': 'xyz' } });
+
+            // Assert.
+            expect(csrfOf(fetchFn.firstCall)).to.equal('xyz');
+        });
+        test("Should use the CSRF token received in the specified response header.", async () => {
+            // Arrange.
+            const fetchFn = fake(() => Promise.resolve(new Response(null, { headers: { 'x-new-token': 'new' } })));
+            const fetcher = new DrFetch(fetchFn).withCsrf({ source: () => 'old', responseHeader: 'X-New-Token' });
+
+            // Act.
+            await fetcher.post('x');
+            await fetcher.post('x');
+
+            // Assert.
+            expect(csrfOf(fetchFn.firstCall)).to.equal('old');
+            expect(csrfOf(fetchFn.secondCall)).to.equal('new');
+        });
+        test("Should keep the headers of a request object given as URL.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).withCsrf({ source: () => 'abc', allowedOrigins: ['https://example.com'] });
+            const request = new Request('https://example.com/x', {
+                method: 'POST',
+                headers: { accept: 'text/plain', 'x-test': 'abc' }
+            });
+
+            // Act.
+            await fetcher.fetch(request);
+
+            // Assert.
+            expect(csrfOf(fetchFn.firstCall)).to.equal('abc');
+            expect(csrfOf(fetchFn.firstCall, 'x-test')).to.equal('abc');
+        });
+        test("Should ignore CSRF tokens received from untrusted origins.", async () => {
+            // Arrange.
+            const fetchFn = fake(() => Promise.resolve(new Response(null, { headers: { 'x-new-token': 'evil' } })));
+            const fetcher = new DrFetch(fetchFn).withCsrf({ source: () => 'old', responseHeader: 'X-New-Token' });
+            await fetcher.get('https://other.example.com/x');
+
+            // Act.
+            await fetcher.post('x');
+
+            // Assert.
+            expect(csrfOf(fetchFn.secondCall)).to.equal('old');
+        });
+        test("Should share the CSRF token received in a response header with clones.", async () => {
+            // Arrange.
+            const fetchFn = fake(() => Promise.resolve(new Response(null, { headers: { 'x-new-token': 'new' } })));
+            const fetcher = new DrFetch(fetchFn).withCsrf({ source: () => 'old', responseHeader: 'X-New-Token' });
+            const clone = fetcher.clone();
+
+            // Act.
+            await fetcher.get('x');
+            await clone.post('x');
+
+            // Assert.
+            expect(csrfOf(fetchFn.secondCall)).to.equal('new');
+        });
+        [
+            {
+                baseUrl: undefined,
+                allowedOrigins: undefined,
+                url: '/x',
+                expected: 'abc',
+                text: 'send the token to relative URLs when there is no base URL and no allowed origins',
+            },
+            {
+                baseUrl: undefined,
+                allowedOrigins: undefined,
+                url: 'https://other.example.com/x',
+                expected: null,
+                text: 'not send the token to absolute URLs when there is no base URL and no allowed origins',
+            },
+            {
+                baseUrl: 'https://api.example.com/v1',
+                allowedOrigins: undefined,
+                url: 'x',
+                expected: 'abc',
+                text: "send the token to the base URL's origin",
+            },
+            {
+                baseUrl: 'https://api.example.com/v1',
+                allowedOrigins: undefined,
+                url: 'https://other.example.com/x',
+                expected: null,
+                text: "not send the token to origins other than the base URL's",
+            },
+            {
+                baseUrl: 'https://api.example.com/v1',
+                allowedOrigins: undefined,
+                url: '//other.example.com/x',
+                expected: null,
+                text: "not send the token to protocol-relative URLs of other origins",
+            },
+            {
+                baseUrl: '/api',
+                allowedOrigins: undefined,
+                url: 'https://other.example.com/x',
+                expected: null,
+                text: 'not send the token to other origins when the base URL is relative and there are no allowed origins',
+            },
+            {
+                baseUrl: undefined,
+                allowedOrigins: ['https://api.example.com'],
+                url: 'https://api.example.com/x',
+                expected: 'abc',
+                text: 'send the token to an allowed origin',
+            },
+            {
+                baseUrl: undefined,
+                allowedOrigins: ['https://api.example.com'],
+                url: 'https://other.example.com/x',
+                expected: null,
+                text: 'not send the token to origins that are not allowed',
+            },
+            {
+                baseUrl: undefined,
+                allowedOrigins: ['https://api.example.com'],
+                url: '/x',
+                expected: 'abc',
+                text: 'send the token to relative URLs',
+            },
+        ].forEach(tc => {
+            test(`Should ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn).withCsrf({ source: () => 'abc', allowedOrigins: tc.allowedOrigins });
+                if (tc.baseUrl) {
+                    fetcher.withBaseUrl(tc.baseUrl);
+                }
+
+                // Act.
+                await fetcher.post(tc.url);
+
+                // Assert.
+                expect(csrfOf(fetchFn.firstCall)).to.equal(tc.expected);
+            });
+        });
+    });
+    describe('withTracing()', () => {
+        type RecordedSpan = {
+            name: string;
+            kind?: number;
+            attributes: Record<string, string | number | boolean>;
+            status?: { code: number; message?: string; };
+            exceptions: unknown[];
+            ended: boolean;
+        };
+        function createTracer(traceState?: string) {
+            const spans: RecordedSpan[] = [];
+            const tracer: Tracer = {
+                startSpan(name, options) {
+                    const span: RecordedSpan = {
+                        name,
+                        kind: options?.kind,
+                        attributes: { ...options?.attributes },
+                        exceptions: [],
+                        ended: false,
+                    };
+                    spans.push(span);
+                    return {
+                        spanContext: () => ({
+                            traceId: '0af7651916cd43dd8448eb211c80319c',
+                            spanId: 'b7ad6b7169203331',
+                            traceFlags: 1,
+                            traceState: traceState === undefined ? undefined : { serialize: () => traceState },
+                        }),
+                        setAttribute(key, value) { span.attributes[key] = value; },
+                        setStatus(status) { span.status = status; },
+                        recordException(exception) { span.exceptions.push(exception); },
+                        end() { span.ended = true; },
+                    };
+                },
+            };
+            return { tracer, spans };
+        }
+        test("Should return the fetcher object.", () => {
+            // Arrange.
+            const fetcher = new DrFetch(jsonFetch());
+
+            // Act.
+            const result = fetcher.withTracing(createTracer().tracer);
+
+            // Assert.
+            expect(result).to.equal(fetcher);
+        });
+        test("Should start and end a client span per HTTP request, recording the method, URL, status and body processor.", async () => {
+            // Arrange.
+            const { tracer, spans } = createTracer();
+            const fetcher = new DrFetch(jsonFetch()).withTracing(tracer);
+
+            // Act.
+            await fetcher.post('https://example.com/x', { a: 1 });
+
+            // Assert.
+            expect(spans).to.have.lengthOf(1);
+            expect(spans[0]).to.include({ name: 'POST', kind: 2, ended: true });
+            expect(spans[0].attributes).to.deep.equal({
+                'http.request.method': 'POST',
+                'url.full': 'https://example.com/x',
+                'http.response.status_code': 200,
+                'dr_fetch.body_processor': 'json',
+            });
+            expect(spans[0].status).to.equal(undefined);
+        });
+        [
+            { traceState: undefined, expected: undefined },
+            { traceState: 'vendor=value', expected: 'vendor=value' },
+        ].forEach(tc => {
+            test(`Should inject the traceparent header${tc.expected ? ' and the tracestate header' : ''}.`, async () => {
+                // Arrange.
+                const { tracer } = createTracer(tc.traceState);
+                const fetchFn = jsonFetch();
+                const fetcher = new DrFetch(fetchFn).withTracing(tracer);
+
+                // Act.
+                await fetcher.get('x', { headers: [['tracestate', 'stale=1']] });
+
+                // Assert.
+                const headers = new Headers(fetchFn.firstCall.args[1]?.headers);
+                expect(headers.get('traceparent')).to.equal('00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01');
+                expect(headers.get('tracestate') ?? undefined).to.equal(tc.expected);
+            });
+        });
+        test("Should keep the headers of a request object given as URL.", async () => {
+            // Arrange.
+            const { tracer } = createTracer();
+            const fetchFn = jsonFetch();
+            const fetcher = new DrFetch(fetchFn).withTracing(tracer);
+            const request = new Request('https://example.com/x', { headers: { accept: 'text/plain', 'x-test': 'abc' } });
+
+            // Act.
+            await fetcher.fetch(request);
+
+            // Assert.
+            const headers = new Headers(fetchFn.firstCall.args[1]?.headers);
+            expect(headers.get('x-test')).to.equal('abc');
+            expect(headers.has('traceparent')).to.be.true;
+        });
+        test("Should not add the trace context headers to the caller's headers.", async () => {
+            // Arrange.
+            const { tracer } = createTracer();
+            const fetchFn = jsonFetch();
+            const fetcher = new DrFetch(fetchFn).withTracing(tracer);
+            const headers = new Headers({ 'x-test': 'abc' });
+
+            // Act.
+            await fetcher.get('x', { headers });
+
+            // Assert.
+            expect([...headers]).to.deep.equal([['x-test', 'abc']]);
+        });
+        [
+            { propagate: false, expected: false },
+            { propagate: (url: string) => url.startsWith('https://api.example.com'), expected: false },
+            { propagate: (url: string) => url.startsWith('x'), expected: true },
+        ].forEach(tc => {
+            test(`Should ${tc.expected ? '' : 'not '}inject the trace context headers with propagate = ${tc.propagate}.`, async () => {
+                // Arrange.
+                const { tracer, spans } = createTracer();
+                const fetchFn = jsonFetch();
+                const fetcher = new DrFetch(fetchFn).withTracing(tracer, { propagate: tc.propagate });
+
+                // Act.
+                await fetcher.get('x');
+
+                // Assert.
+                const headers = new Headers(fetchFn.firstCall.args[1]?.headers);
+                expect(headers.has('traceparent')).to.equal(tc.expected);
+                expect(spans).to.have.lengthOf(1);
+            });
+        });
+        [
+            { url: 'x', propagate: undefined, expected: true, text: 'relative URLs' },
+            { url: 'https://app.example.com/x', propagate: undefined, expected: true, text: "the page's origin" },
+            { url: 'https://api.example.com/x', propagate: undefined, expected: false, text: 'other origins' },
+            { url: 'https://api.example.com/x', propagate: ['https://api.example.com'], expected: true, text: 'listed origins' },
+            { url: 'https://api.example.com/x', propagate: true, expected: true, text: 'other origins when propagate = true' },
+        ].forEach(tc => {
+            test(`Should ${tc.expected ? '' : 'not '}inject the trace context headers in browsers for ${tc.text}.`, async () => {
+                // Arrange.
+                const { tracer } = createTracer();
+                const fetchFn = jsonFetch();
+                const fetcher = new DrFetch(fetchFn).withTracing(tracer, { propagate: tc.propagate });
+                (globalThis as any).location = { href: 'https://app.example.com/page', origin: 'https://app.example.com' };
+
+                // Act.
+                try {
+                    await fetcher.get(tc.url);
+                }
+                finally {
+                    delete (globalThis as any).location;
+                }
+
+                // Assert.
+                const headers = new Headers(fetchFn.firstCall.args[1]?.headers);
+                expect(headers.has('traceparent')).to.equal(tc.expected);
+            });
+        });
+        test("Should inject the trace context headers for any origin outside browsers.", async () => {
+            // Arrange.
+            const { tracer } = createTracer();
+            const fetchFn = jsonFetch();
+            const fetcher = new DrFetch(fetchFn).withTracing(tracer);
+
+            // Act.
+            await fetcher.get('https://api.example.com/x');
+
+            // Assert.
+            const headers = new Headers(fetchFn.firstCall.args[1]?.headers);
+            expect(headers.has('traceparent')).to.be.true;
+        });
+        test("Should record the number of retries.", async () => {
+            // Arrange.
+            const { tracer, spans } = createTracer();
+            const statuses = [503, 503, 200];
+            const fetchFn = fake(() => Promise.resolve(new Response(null, { status: statuses.shift() })));
+            const fetcher = new DrFetch(fetchFn)
+                .withRetry({ limit: 3, delay: 0, jitter: false })
+                .withTracing(tracer);
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(spans[0].attributes['http.request.resend_count']).to.equal(2);
+            expect(spans[0].attributes['http.response.status_code']).to.equal(200);
+        });
+        test("Should mark the span as failed for error status codes.", async () => {
+            // Arrange.
+            const { tracer, spans } = createTracer();
+            const fetcher = new DrFetch(jsonFetch(404)).withTracing(tracer);
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(spans[0].attributes['error.type']).to.equal('404');
+            expect(spans[0].status?.code).to.equal(2);
+        });
+        test("Should record the exception and the kind of failure of failed HTTP requests.", async () => {
+            // Arrange.
+            const { tracer, spans } = createTracer();
+            const error = new TypeError('Failed to fetch.');
+            const fetchFn = fake.rejects(error);
+            const fetcher = new DrFetch(fetchFn).safe().withTracing(tracer);
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(spans[0].exceptions).to.deep.equal([error]);
+            expect(spans[0].attributes['error.type']).to.equal('network');
+            expect(spans[0].status).to.deep.equal({ code: 2, message: 'Failed to fetch.' });
+            expect(spans[0].ended).to.be.true;
+        });
+        [
+            { timedOut: false },
+            { timedOut: true },
+        ].forEach(tc => {
+            test(`Should record ${tc.timedOut ? 'timeouts' : 'aborts'}.`, async () => {
+                // Arrange.
+                const { tracer, spans } = createTracer();
+                const fetchFn = fake((_url: FetchFnUrl, init?: FetchFnInit) => new Promise<Response>((_rs, rj) => {
+                    init?.signal?.addEventListener('abort', () => rj(init.signal!.reason));
+                }));
+                const fetcher = new DrFetch(fetchFn).abortable().withTracing(tracer);
+                const ac = new AbortController();
+
+                // Act.
+                const promise = fetcher.get('x', tc.timedOut ? { timeout: 5 } : { signal: ac.signal });
+                ac.abort();
+                await promise;
+
+                // Assert.
+                expect(spans[0].attributes['dr_fetch.aborted']).to.be.true;
+                expect(spans[0].attributes['dr_fetch.timed_out']).to.equal(tc.timedOut);
+                expect(spans[0].status?.code).to.equal(tc.timedOut ? 2 : undefined);
+                expect(spans[0].ended).to.be.true;
+            });
+        });
+        test("Should record the name of custom body processors.", async () => {
+            // Arrange.
+            const { tracer, spans } = createTracer();
+            const fetcher = new DrFetch(jsonFetch())
+                .withProcessor('json', (r) => r.json(), { name: 'my-json' })
+                .withTracing(tracer);
+
+            // Act.
+            await fetcher.get('x');
+
+            // Assert.
+            expect(spans[0].attributes['dr_fetch.body_processor']).to.equal('my-json');
+        });
+        test("Should make clone() return a fetcher with the same tracer.", async () => {
+            // Arrange.
+            const { tracer, spans } = createTracer();
+            const fetcher = new DrFetch(jsonFetch()).withTracing(tracer);
+
+            // Act.
+            await fetcher.clone().get('x');
+
+            // Assert.
+            expect(spans).to.have.lengthOf(1);
+        });
+    });
+    describe('Streaming Bodies', () => {
+        function streamOf(...chunks: string[]) {
+            const encoder = new TextEncoder();
+            return new ReadableStream<Uint8Array>({
+                start(controller) {
+                    for (let chunk of chunks) {
+                        controller.enqueue(encoder.encode(chunk));
+                    }
+                    controller.close();
+                }
+            });
+        }
+        [
+            'application/x-ndjson',
+            'application/ndjson',
+            'application/jsonl',
+        ].forEach(contentType => {
+            test(`Should yield the parsed lines of a "${contentType}" body.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(streamOf('{"a":1}\n{"a"', ':2}\r\n\n{"a":3}'), { headers: { 'content-type': contentType } }));
+                const fetcher = new DrFetch(fetchFn).for<200, Stream<{ a: number; }>>();
+
+                // Act.
+                const response = await fetcher.get('x');
+
+                // Assert.
+                expect(await collect(response.body)).to.deep.equal([{ a: 1 }, { a: 2 }, { a: 3 }]);
+            });
+        });
+        test("Should yield the events of a Server-Sent Events body.", async () => {
+            // Arrange.
+            const body = streamOf(
+                ': comment\n',
+                'data: first\n\n',
+                'event: update\nid: 7\nretry: 3000\ndata: line 1\r',
+                '\ndata:line 2\n\n',
+                'data: incomplete',
+            );
+            const fetchFn = fake.resolves(new Response(body, { headers: { 'content-type': 'text/event-stream' } }));
+            const fetcher = new DrFetch(fetchFn).for<200, Stream<ServerSentEvent>>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(await collect(response.body)).to.deep.equal([
+                { event: 'message', data: 'first', id: undefined, retry: undefined },
+                { event: 'update', data: 'line 1\nline 2', id: '7', retry: 3000 },
+            ]);
+        });
+        test("Should end the stream when the HTTP request is aborted.", async () => {
+            // Arrange.
+            const encoder = new TextEncoder();
+            let streamController!: ReadableStreamDefaultController<Uint8Array>;
+            const body = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    streamController = controller;
+                    controller.enqueue(encoder.encode('1\n2\n'));
+                }
+            });
+            const fetchFn = fake.resolves(new Response(body, { headers: { 'content-type': 'application/x-ndjson' } }));
+            const fetcher = new DrFetch(fetchFn).abortable().for<200, Stream<number>>();
+            const ac = new AbortController();
+            const response = await fetcher.get('x', { signal: ac.signal });
+            if (response.aborted) {
+                throw new Error('Unexpected aborted result.');
+            }
+            const items: number[] = [];
+
+            // Act.
+            for await (let item of response.body) {
+                items.push(item);
+                if (item === 2) {
+                    ac.abort();
+                    streamController.enqueue(encoder.encode('3\n'));
+                }
+            }
+
+            // Assert.
+            expect(items).to.deep.equal([1, 2]);
+        });
+        test("Should give the stream parsers to custom processors.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(streamOf('1\n2\n'), { headers: { 'content-type': 'text/x-numbers' } }));
+            const fetcher = new DrFetch(fetchFn)
+                .withProcessor('text/x-numbers', (r, p) => p.ndjson(r))
+                .for<200, Stream<number>>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(await collect(response.body)).to.deep.equal([1, 2]);
+        });
+    });
+    describe('Binary Bodies', () => {
+        [
+            'application/octet-stream',
+            'application/pdf',
+            'image/png',
+        ].forEach(contentType => {
+            test(`Should read a "${contentType}" body as a Blob object.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(new Uint8Array([1, 2, 3]), { headers: { 'content-type': contentType } }));
+                const fetcher = new DrFetch(fetchFn).for<200, Blob>();
+
+                // Act.
+                const response = await fetcher.get('x');
+
+                // Assert.
+                expect(response.body).to.be.instanceOf(Blob);
+                expect(response.body.size).to.equal(3);
+            });
+        });
+        test("Should read a multipart/form-data body as a FormData object.", async () => {
+            // Arrange.
+            const formData = new FormData();
+            formData.append('a', '1');
+            const fetchFn = fake.resolves(new Response(formData));
+            const fetcher = new DrFetch(fetchFn).for<200, FormData>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.body).to.be.instanceOf(FormData);
+            expect(response.body.get('a')).to.equal('1');
+        });
+        [
+            {
+                responseType: 'json' as const,
+                check: (body: unknown) => expect(body).to.deep.equal({ a: 1 }),
+            },
+            {
+                responseType: 'text' as const,
+                check: (body: unknown) => expect(body).to.equal('{"a":1}'),
+            },
+            {
+                responseType: 'blob' as const,
+                check: (body: unknown) => expect(body).to.be.instanceOf(Blob),
+            },
+            {
+                responseType: 'arrayBuffer' as const,
+                check: (body: unknown) => expect(body).to.be.instanceOf(ArrayBuffer),
+            },
+            {
+                responseType: 'stream' as const,
+                check: (body: unknown) => expect(body).to.be.instanceOf(ReadableStream),
+            },
+            {
+                responseType: 'raw' as const,
+                check: (body: unknown) => expect(body).to.be.instanceOf(Response),
+            },
+        ].forEach(tc => {
+            test(`Should read the body according to responseType '${tc.responseType}' regardless of the content type.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response('{"a":1}', { headers: { 'content-type': 'x/unknown' } }));
+                const fetcher = new DrFetch(fetchFn).for<200, unknown>();
+
+                // Act.
+                const response = await fetcher.get('x', { responseType: tc.responseType });
+
+                // Assert.
+                tc.check(response.body);
+            });
+        });
+        test("Should not use custom processors when a response type is specified.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response('abc', { headers: { 'content-type': 'text/plain' } }));
+            const processorFn = fake();
+            const fetcher = new DrFetch(fetchFn).withProcessor('text/plain', processorFn).for<200, string>();
+
+            // Act.
+            const response = await fetcher.get('x', { responseType: 'text' });
+
+            // Assert.
+            expect(processorFn.called).to.be.false;
+            expect(response.body).to.equal('abc');
+        });
+        test("Should give the binary parsers to custom processors.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(new Uint8Array([1, 2]), { headers: { 'content-type': 'x/custom' } }));
+            const fetcher = new DrFetch(fetchFn)
+                .withProcessor('x/custom', (r, p) => p.arrayBuffer(r))
+                .for<200, ArrayBuffer>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.body.byteLength).to.equal(2);
+        });
+    });
+    describe('paginate()', () => {
+        function pagedFetch(pages: Record<string, { body: unknown; link?: string; status?: number; }>) {
+            return fake((url: FetchFnUrl) => {
+                const page = pages[url.toString()];
+                if (!page) {
+                    return Promise.resolve(new Response(null, { status: 404 }));
+                }
+                const headers: Record<string, string> = { 'content-type': 'application/json' };
+                if (page.link) {
+                    headers.link = page.link;
+                }
+                return Promise.resolve(new Response(JSON.stringify(page.body), { status: page.status ?? 200, headers }));
+            });
+        }
+        test("Should follow the Link headers with rel=\"next\", resolving relative links against the page's URL.", async () => {
+            // Arrange.
+            const fetchFn = pagedFetch({
+                'https://example.com/api/items?page=1': { body: [1, 2], link: '</api/items?page=2>; rel="next", </api/items?page=9>; rel="last"' },
+                'https://example.com/api/items?page=2': { body: [3], link: '<https://example.com/api/items?page=3>; rel="prev next"' },
+                'https://example.com/api/items?page=3': { body: [4] },
+            });
+            const fetcher = new DrFetch(fetchFn).withBaseUrl('https://example.com/api').for<200, number[]>();
+
+            // Act.
+            const pages = await collect(fetcher.paginate('items', { init: { query: { page: 1 } } }));
+
+            // Assert.
+            expect(pages.map(p => p.body)).to.deep.equal([[1, 2], [3], [4]]);
+            expect(fetchFn.callCount).to.equal(3);
+        });
+        test("Should yield items when 'getItems' is specified.", async () => {
+            // Arrange.
+            const fetchFn = pagedFetch({
+                'https://example.com/items': { body: { items: ['a', 'b'], cursor: 'c1' } },
+                'https://example.com/items?cursor=c1': { body: { items: ['c'] } },
+            });
+            const fetcher = new DrFetch(fetchFn).for<200, { items: string[]; cursor?: string; }>();
+
+            // Act.
+            const items = await collect(fetcher.paginate('https://example.com/items', {
+                getItems: (page) => page.body.items,
+                getNext: (page) => page.body.cursor && `https://example.com/items?cursor=${page.body.cursor}`,
+            }));
+
+            // Assert.
+            expect(items).to.deep.equal(['a', 'b', 'c']);
+        });
+        test("Should yield the first non-OK page and stop.", async () => {
+            // Arrange.
+            const fetchFn = pagedFetch({
+                'https://example.com/1': { body: [1], link: '<https://example.com/2>; rel=next' },
+                'https://example.com/2': { body: { error: 'x' }, status: 500, link: '<https://example.com/3>; rel=next' },
+            });
+            const fetcher = new DrFetch(fetchFn).for<200, number[]>().for<500, { error: string; }>();
+
+            // Act.
+            const pages = await collect(fetcher.paginate('https://example.com/1'));
+
+            // Assert.
+            expect(pages.map(p => p.status)).to.deep.equal([200, 500]);
+            expect(fetchFn.callCount).to.equal(2);
+        });
+        test("Should not yield items for a non-OK page.", async () => {
+            // Arrange.
+            const fetchFn = pagedFetch({
+                'https://example.com/1': { body: [1], link: '<https://example.com/2>; rel=next' },
+            });
+            const fetcher = new DrFetch(fetchFn).for<200, number[]>().for<404, undefined>();
+
+            // Act.
+            const items = await collect(fetcher.paginate('https://example.com/1', { getItems: (page) => page.body }));
+
+            // Assert.
+            expect(items).to.deep.equal([1]);
+        });
+        test("Should stop after the maximum number of pages.", async () => {
+            // Arrange.
+            const fetchFn = pagedFetch({
+                'https://example.com/1': { body: [1], link: '<https://example.com/2>; rel=next' },
+                'https://example.com/2': { body: [2], link: '<https://example.com/3>; rel=next' },
+            });
+            const fetcher = new DrFetch(fetchFn).for<200, number[]>();
+
+            // Act.
+            const pages = await collect(fetcher.paginate('https://example.com/1', { maxPages: 1 }));
+
+            // Assert.
+            expect(pages).to.have.length(1);
+        });
+        test("Should stop when a page links to an already visited page.", async () => {
+            // Arrange.
+            const fetchFn = pagedFetch({
+                'https://example.com/1': { body: [1], link: '<https://example.com/2>; rel=next' },
+                'https://example.com/2': { body: [2], link: '<https://example.com/1>; rel=next' },
+            });
+            const fetcher = new DrFetch(fetchFn).for<200, number[]>();
+
+            // Act.
+            const pages = await collect(fetcher.paginate('https://example.com/1'));
+
+            // Assert.
+            expect(pages).to.have.length(2);
+        });
+        test("Should stop when the signal is aborted.", async () => {
+            // Arrange.
+            const fetchFn = pagedFetch({
+                'https://example.com/1': { body: [1], link: '<https://example.com/2>; rel=next' },
+                'https://example.com/2': { body: [2] },
+            });
+            const fetcher = new DrFetch(fetchFn).for<200, number[]>();
+            const ac = new AbortController();
+            let count = 0;
+
+            // Act.
+            for await (let _ of fetcher.paginate('https://example.com/1', { init: { signal: ac.signal } })) {
+                ++count;
+                ac.abort();
+            }
+
+            // Assert.
+            expect(count).to.equal(1);
+            expect(fetchFn.callCount).to.equal(1);
+        });
+    });
+    describe('Progress Reporting', () => {
+        test("Should report download progress while the stock processor reads the body.", async () => {
+            // Arrange.
+            const body = '{"data":"' + 'x'.repeat(100) + '"}';
+            const fetchFn = fake.resolves(new Response(body, { headers: { 'content-type': 'application/json', 'content-length': String(body.length) } }));
+            const onDownloadProgress = fake();
+            const fetcher = new DrFetch(fetchFn).for<200, { data: string; }>();
+
+            // Act.
+            const response = await fetcher.get('x', { onDownloadProgress });
+
+            // Assert.
+            expect(response.body.data).to.have.length(100);
+            expect(onDownloadProgress.called).to.be.true;
+            expect(onDownloadProgress.lastCall.args[0]).to.deep.equal({ loaded: body.length, total: body.length, lengthComputable: true });
+        });
+        test("Should report download progress while a custom processor reads the body.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response('abc', { headers: { 'content-type': 'x/custom' } }));
+            const onDownloadProgress = fake();
+            const fetcher = new DrFetch(fetchFn).withProcessor('x/custom', r => r.text());
+
+            // Act.
+            await fetcher.get('x', { onDownloadProgress });
+
+            // Assert.
+            expect(onDownloadProgress.lastCall.args[0]).to.deep.equal({ loaded: 3, total: 0, lengthComputable: false });
+        });
+        test("Should not report a total size when the response body is encoded.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response('abc', { headers: { 'content-type': 'text/plain', 'content-length': '2', 'content-encoding': 'gzip' } }));
+            const onDownloadProgress = fake();
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            await fetcher.get('x', { onDownloadProgress });
+
+            // Assert.
+            expect(onDownloadProgress.lastCall.args[0].lengthComputable).to.be.false;
+        });
+        test("Should report the start and the end of the upload for a body that is not a stream.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const onUploadProgress = fake();
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            await fetcher.post('x', { a: 1 }, { onUploadProgress });
+
+            // Assert.
+            expect(onUploadProgress.args.map(a => a[0])).to.deep.equal([
+                { loaded: 0, total: 7, lengthComputable: true },
+                { loaded: 7, total: 7, lengthComputable: true },
+            ]);
+        });
+        [
+            {
+                body: 'abc',
+                text: 'a string',
+            },
+            {
+                body: new Blob(['abc']),
+                text: 'a blob',
+            },
+            {
+                body: new URLSearchParams({ a: '1' }),
+                text: 'a URLSearchParams object',
+            },
+            {
+                body: new FormData(),
+                text: 'a FormData object',
+            },
+            {
+                body: new Uint8Array([1, 2, 3]),
+                text: 'a buffer',
+            },
+        ].forEach(tc => {
+            test(`Should send ${tc.text} as it is when reporting upload progress.`, async () => {
+                // Arrange.
+                const fetchFn = fake.resolves(new Response(null));
+                const fetcher = new DrFetch(fetchFn);
+
+                // Act.
+                await fetcher.post('x', tc.body, { onUploadProgress: () => { } });
+
+                // Assert.
+                expect(fetchFn.firstCall.args[1].body).to.equal(tc.body);
+                expect(fetchFn.firstCall.args[1].duplex).to.be.undefined;
+            });
+        });
+        test("Should report an unknown total when uploading a FormData object.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const onUploadProgress = fake();
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            await fetcher.post('x', new FormData(), { onUploadProgress });
+
+            // Assert.
+            expect(onUploadProgress.lastCall.args[0].lengthComputable).to.be.false;
+        });
+        test("Should report upload progress for a stream body.", async () => {
+            // Arrange.
+            const fetchFn = fake(async (_url: FetchFnUrl, init?: FetchFnInit) => {
+                await new Response(init?.body).arrayBuffer();
+                return new Response(null);
+            });
+            const onUploadProgress = fake();
+            const fetcher = new DrFetch(fetchFn);
+            const body = new Blob(['abcd']).stream();
+
+            // Act.
+            await fetcher.post('x', body, { onUploadProgress, headers: { 'content-length': '4' } });
+
+            // Assert.
+            expect(onUploadProgress.lastCall.args[0]).to.deep.equal({ loaded: 4, total: 4, lengthComputable: true });
+        });
+        test("Should not change the request when there is no body.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const onUploadProgress = fake();
+            const fetcher = new DrFetch(fetchFn);
+
+            // Act.
+            await fetcher.get('x', { onUploadProgress });
+
+            // Assert.
+            expect(fetchFn.firstCall.args[1].body).to.be.undefined;
+            expect(onUploadProgress.called).to.be.false;
+        });
+    });
+    describe('safe()', () => {
+        [
+            {
+                kind: 'network',
+                text: 'the data-fetching function rejects',
+                fetchFn: () => Promise.reject(new TypeError('Failed to fetch.')),
+                errorType: TypeError,
+            },
+            {
+                kind: 'parse',
+                text: 'the JSON body is malformed',
+                fetchFn: () => Promise.resolve(new Response('{ malformed', { headers: { 'content-type': 'application/json' } })),
+                errorType: SyntaxError,
+            },
+            {
+                kind: 'no-processor',
+                text: 'no body processor matches the content type',
+                fetchFn: () => Promise.resolve(new Response('x', { headers: { 'content-type': 'x/unknown' } })),
+                errorType: Error,
+            },
+            {
+                kind: 'no-content-type',
+                text: 'the response has no content type',
+                fetchFn: () => {
+                    const response = new Response('x');
+                    response.headers.delete('content-type');
+                    return Promise.resolve(response);
+                },
+                errorType: Error,
+            },
+        ].forEach(tc => {
+            test(`Should resolve to a failed result of kind "${tc.kind}" when ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = fake(tc.fetchFn);
+                const fetcher = new DrFetch(fetchFn).safe().for<200, {}>();
+
+                // Act.
+                const response = await fetcher.get('x');
+
+                // Assert.
+                expect(response.failed).to.be.true;
+                expect(response.failed && response.kind).to.equal(tc.kind);
+                expect(response.failed && response.error).to.be.instanceOf(tc.errorType);
+            });
+            test(`Should throw the original error when not in safe mode and ${tc.text}.`, async () => {
+                // Arrange.
+                const fetchFn = fake(tc.fetchFn);
+                const fetcher = new DrFetch(fetchFn);
+                let error: unknown;
+
+                // Act.
+                try {
+                    await fetcher.get('x');
+                }
+                catch (err: unknown) {
+                    error = err;
+                }
+
+                // Assert.
+                expect(error).to.be.instanceOf(tc.errorType);
+                expect((error as Error).message).not.to.match(/^The HTTP request failed/);
+            });
+        });
+        test("Should not mark successful results as failed.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response('{"a":1}', { headers: { 'content-type': 'application/json' } }));
+            const fetcher = new DrFetch(fetchFn).safe().for<200, { a: number; }>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.failed).to.be.undefined;
+            expect(!response.failed && response.body).to.deep.equal({ a: 1 });
+        });
+        test("Should resolve to an aborted result (not a failed result) when an abortable fetcher's request is aborted.", async () => {
+            // Arrange.
+            const fetchFn = fake.rejects(new DOMException('Test:  Aborted.', 'AbortError'));
+            const fetcher = new DrFetch(fetchFn).abortable().safe().for<200, {}>();
+
+            // Act.
+            const response = await fetcher.get('x');
+
+            // Assert.
+            expect(response.aborted).to.be.true;
+            expect(response).not.to.have.property('failed');
+        });
+        test("Should make clone() return a fetcher that is also safe.", () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).safe();
+
+            // Act.
+            const clone = fetcher.clone();
+
+            // Assert.
+            expect(clone.isSafe).to.be.true;
+            expect(fetcher.clone({ preserveSafe: false }).isSafe).to.be.false;
+        });
+        test("Should make clone() return a fetcher that is not safe when the original fetcher is not safe.", async () => {
+            // Arrange.
+            const fetchFn = fake.resolves(new Response(null));
+            const fetcher = new DrFetch(fetchFn).abortable();
+
+            // Act.
+            const clone = fetcher.clone();
+            const response = await clone.for<200, null>().get('x');
+
+            // Assert.
+            expect(clone.isSafe).to.be.false;
+            // The type of the result must not include failed results.
+            expect(!response.aborted && response.status).to.equal(200);
+        });
+    });
     describe('abortable()', () => {
         test("Should modify the fetcher object so it supports abortable HTTP requests.", async () => {
             // Arrange.
@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import { describe, test } from 'mocha';
+import { MemoryCacheStore } from '../src/MemoryCacheStore.js';
+import type { CacheEntry } from '../src/types.js';
+
+function entry(body: unknown): CacheEntry {
+    return {
+        status: 200,
+        statusText: 'OK',
+        headers: [],
+        body,
+        storedAt: Date.now(),
+        maxAge: 1000,
+        staleWhileRevalidate: 0,
+    };
+}
+
+describe('MemoryCacheStore', () => {
+    test("Should return the stored entry.", () => {
+        // Arrange.
+        const store = new MemoryCacheStore();
+        const e = entry('a');
+        store.set('a', e);
+
+        // Act.
+        const result = store.get('a');
+
+        // Assert.
+        expect(result).to.equal(e);
+    });
+    test("Should return undefined for keys that have no entry.", () => {
+        // Arrange.
+        const store = new MemoryCacheStore();
+
+        // Act.
+        const result = store.get('a');
+
+        // Assert.
+        expect(result).to.be.undefined;
+    });
+    test("Should delete the specified entry.", () => {
+        // Arrange.
+        const store = new MemoryCacheStore();
+        store.set('a', entry('a'));
+
+        // Act.
+        store.delete('a');
+
+        // Assert.
+        expect(store.get('a')).to.be.undefined;
+        expect(store.size).to.equal(0);
+    });
+    test("Should discard the least recently used entry when the maximum number of entries is exceeded.", () => {
+        // Arrange.
+        const store = new MemoryCacheStore(2);
+        store.set('a', entry('a'));
+        store.set('b', entry('b'));
+        store.get('a');
+
+        // Act.
+        store.set('c', entry('c'));
+
+        // Assert.
+        expect(store.size).to.equal(2);
+        expect(store.get('b')).to.be.undefined;
+        expect(store.get('a')).to.not.be.undefined;
+        expect(store.get('c')).to.not.be.undefined;
+    });
+    test("Should remove all entries when cleared.", () => {
+        // Arrange.
+        const store = new MemoryCacheStore();
+        store.set('a', entry('a'));
+        store.set('b', entry('b'));
+
+        // Act.
+        store.clear();
+
+        // Assert.
+        expect(store.size).to.equal(0);
+    });
+});
@@ -0,0 +1,84 @@
+import { expect } from 'chai';
+import { describe, test } from 'mocha';
+import {
+    getReasonPhrase,
+    isClientError,
+    isInformational,
+    isOk,
+    isRedirect,
+    isServerError,
+    StatusCodes,
+} from '../src/StatusCodes.js';
+
+describe('StatusCodes', () => {
+    test("Should have a reason phrase for every status code.", () => {
+        for (let [name, status] of Object.entries(StatusCodes)) {
+            // Act.
+            const result = getReasonPhrase(status);
+
+            // Assert.
+            expect(result, `Status code ${name} has no reason phrase.`).to.be.a('string');
+        }
+    });
+    test("Should have a status code for every reason phrase.", () => {
+        // Arrange.
+        const statusCodes = Object.values(StatusCodes) as number[];
+
+        for (let status = 100; status < 600; ++status) {
+            // Act.
+            const result = getReasonPhrase(status);
+
+            // Assert.
+            expect(result === undefined || statusCodes.includes(status), `Status code ${status} is not enumerated.`).to.be.true;
+        }
+    });
+});
+
+describe('getReasonPhrase', () => {
+    [
+        { status: 103, expected: 'Early Hints' },
+        { status: 200, expected: 'OK' },
+        { status: 304, expected: 'Not Modified' },
+        { status: 404, expected: 'Not Found' },
+        { status: 418, expected: "I'm a teapot" },
+        { status: 505, expected: 'HTTP Version Not Supported' },
+        { status: 299, expected: undefined },
+        { status: 0, expected: undefined },
+    ].forEach(tc => {
+        test(`Should return '${tc.expected}' for status code ${tc.status}.`, () => {
+            // Act.
+            const result = getReasonPhrase(tc.status);
+
+            // Assert.
+            expect(result).to.equal(tc.expected);
+        });
+    });
+});
+
+describe('Status Code Classification', () => {
+    const classifiers = { isInformational, isOk, isRedirect, isClientError, isServerError };
+    [
+        { status: 100, expected: 'isInformational' },
+        { status: 199, expected: 'isInformational' },
+        { status: 200, expected: 'isOk' },
+        { status: 299, expected: 'isOk' },
+        { status: 301, expected: 'isRedirect' },
+        { status: 399, expected: 'isRedirect' },
+        { status: 400, expected: 'isClientError' },
+        { status: 499, expected: 'isClientError' },
+        { status: 500, expected: 'isServerError' },
+        { status: 599, expected: 'isServerError' },
+        { status: 600, expected: undefined },
+        { status: 0, expected: undefined },
+    ].forEach(tc => {
+        test(`Should classify status code ${tc.status} only with ${tc.expected ?? 'no classifier'}.`, () => {
+            for (let [name, classifier] of Object.entries(classifiers)) {
+                // Act.
+                const result = classifier(tc.status);
+
+                // Assert.
+                expect(result, name).to.equal(name === tc.expected);
+            }
+        });
+    });
+});
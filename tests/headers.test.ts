@@ -1,6 +1,24 @@
 import { expect } from 'chai';
 import { describe, test } from 'mocha';
-import { getHeader, hasHeader, makeIterableHeaders, setHeaders } from '../src/headers.js';
+import {
+    appendHeader,
+    getHeader,
+    hasHeader,
+    makeIterableHeaders,
+    mergeHeaders,
+    parseCacheControl,
+    parseContentDisposition,
+    parseLinkHeader,
+    parseRetryAfter,
+    parseStructuredDictionary,
+    parseStructuredItem,
+    parseStructuredList,
+    parseWwwAuthenticate,
+    removeHeader,
+    setHeaders,
+    toHeaders,
+    toPojo,
+} from '../src/headers.js';
 
 describe('setHeaders', () => {
     test("Should throw an error whenever the 'init' argument is undefined.", () => {
@@ -314,3 +332,590 @@ describe('getHeader', () => {
         });
     });
 });
+
+describe('removeHeader', () => {
+    [
+        {
+            headers: () => new Headers([['Accept', 'text/plain'], ['X-Test', '1']]),
+            text: 'a Headers object',
+        },
+        {
+            headers: () => [['Accept', 'text/plain'], ['X-Test', '1'], ['accept', 'application/json']] as [string, string][],
+            text: 'tuples with duplicates',
+        },
+        {
+            headers: () => ({ Accept: 'text/plain', 'X-Test': '1', ACCEPT: 'application/json' }) as Record<string, string>,
+            text: 'a POJO with duplicates',
+        },
+    ].forEach(tc => {
+        test(`Should remove every occurrence of the header from ${tc.text}.`, () => {
+            // Arrange.
+            const init = { headers: tc.headers() };
+
+            // Act.
+            removeHeader(init, 'accept');
+
+            // Assert.
+            expect(hasHeader(init.headers, 'Accept')).to.equal(false);
+            expect(getHeader(init.headers, 'x-test')).to.equal('1');
+        });
+    });
+    test("Should do nothing if the init object has no headers.", () => {
+        // Arrange.
+        const init = {};
+
+        // Act.
+        removeHeader(init, 'Accept');
+
+        // Assert.
+        expect(init).to.deep.equal({});
+    });
+    test("Should throw if the init object is undefined.", () => {
+        // Act.
+        const act = () => removeHeader(undefined as any, 'Accept');
+
+        // Assert.
+        expect(act).to.throw();
+    });
+});
+
+describe('appendHeader', () => {
+    [
+        {
+            headers: () => new Headers([['Accept', 'text/plain']]),
+            text: 'a Headers object',
+        },
+        {
+            headers: () => [['Accept', 'text/plain']] as [string, string][],
+            text: 'tuples',
+        },
+        {
+            headers: () => ({ Accept: 'text/plain' }) as Record<string, string>,
+            text: 'a POJO',
+        },
+        {
+            headers: () => [['accept', 'text/plain']] as [string, string][],
+            text: 'tuples with a differently-cased header',
+        },
+        {
+            headers: () => ({ accept: 'text/plain' }) as Record<string, string>,
+            text: 'a POJO with a differently-cased header',
+        },
+    ].forEach(tc => {
+        test(`Should append the values to the existing ones in ${tc.text}.`, () => {
+            // Arrange.
+            const init = { headers: tc.headers() };
+
+            // Act.
+            appendHeader(init, 'Accept', 'application/json');
+            appendHeader(init, 'Accept', ['text/html', 'text/csv']);
+
+            // Assert.
+            expect(new Headers(init.headers).get('accept')).to.equal('text/plain, application/json, text/html, text/csv');
+        });
+    });
+    test("Should combine the differently-cased duplicates of a POJO into a single property.", () => {
+        // Arrange.
+        const init = { headers: { Accept: 'text/plain', ACCEPT: 'text/html' } as Record<string, string> };
+
+        // Act.
+        appendHeader(init, 'accept', 'application/json');
+
+        // Assert.
+        expect(init.headers).to.deep.equal({ Accept: 'text/plain, text/html, application/json' });
+    });
+    test("Should create a Headers object if the init object has no headers.", () => {
+        // Arrange.
+        const init: RequestInit = {};
+
+        // Act.
+        appendHeader(init, 'Accept', 'application/json');
+
+        // Assert.
+        expect(init.headers).to.be.instanceOf(Headers);
+        expect((init.headers as Headers).get('Accept')).to.equal('application/json');
+    });
+});
+
+describe('toHeaders', () => {
+    [
+        {
+            headers: new Headers([['Accept', 'text/plain'], ['X-Test', '1']]),
+            text: 'a Headers object',
+        },
+        {
+            headers: [['Accept', 'text/plain'], ['X-Test', '1']] as [string, string][],
+            text: 'tuples',
+        },
+        {
+            headers: new Map([['Accept', 'text/plain'], ['X-Test', '1']]),
+            text: 'a Map object',
+        },
+        {
+            headers: { Accept: 'text/plain', 'X-Test': '1' },
+            text: 'a POJO',
+        },
+    ].forEach(tc => {
+        test(`Should convert ${tc.text} into a new Headers object.`, () => {
+            // Act.
+            const result = toHeaders(tc.headers);
+
+            // Assert.
+            expect(result).to.be.instanceOf(Headers);
+            expect(result).not.to.equal(tc.headers);
+            expect([...result]).to.deep.equal([['accept', 'text/plain'], ['x-test', '1']]);
+        });
+    });
+    [
+        {
+            headers: [['Accept', 'text/plain'], ['accept', 'text/html']] as [string, string][],
+            text: 'tuples',
+        },
+        {
+            headers: new Map<string, string | string[]>([['Accept', ['text/plain']], ['ACCEPT', 'text/html']]),
+            text: 'a Map object',
+        },
+        {
+            headers: { Accept: 'text/plain', accept: ['text/html'] },
+            text: 'a POJO',
+        },
+    ].forEach(tc => {
+        test(`Should combine the values of case-insensitive duplicates found in ${tc.text}.`, () => {
+            // Act.
+            const result = toHeaders(tc.headers);
+
+            // Assert.
+            expect(result.get('accept')).to.equal('text/plain, text/html');
+        });
+    });
+});
+
+describe('toPojo', () => {
+    [
+        {
+            headers: new Headers([['Accept', 'text/plain'], ['X-Test', '1'], ['accept', 'text/html']]),
+            text: 'a Headers object',
+        },
+        {
+            headers: [['Accept', 'text/plain'], ['X-Test', '1'], ['accept', 'text/html']] as [string, string][],
+            text: 'tuples',
+        },
+        {
+            headers: new Map<string, string | string[]>([['Accept', ['text/plain', 'text/html']], ['X-Test', '1']]),
+            text: 'a Map object',
+        },
+        {
+            headers: { Accept: 'text/plain', 'X-Test': '1', ACCEPT: 'text/html' },
+            text: 'a POJO',
+        },
+    ].forEach(tc => {
+        test(`Should convert ${tc.text} into a POJO with lower-cased names and combined values.`, () => {
+            // Act.
+            const result = toPojo(tc.headers);
+
+            // Assert.
+            expect(result).to.deep.equal({ accept: 'text/plain, text/html', 'x-test': '1' });
+        });
+    });
+    test("Should combine Set-Cookie values.", () => {
+        // Arrange.
+        const headers = new Headers();
+        headers.append('Set-Cookie', 'a=1');
+        headers.append('Set-Cookie', 'b=2');
+
+        // Act.
+        const result = toPojo(headers);
+
+        // Assert.
+        expect(result).to.deep.equal({ 'set-cookie': 'a=1, b=2' });
+    });
+});
+
+describe('mergeHeaders', () => {
+    test("Should give precedence to later sources, regardless of casing.", () => {
+        // Act.
+        const result = mergeHeaders(
+            { Accept: 'application/json', 'X-Trace': '1' },
+            undefined,
+            [['accept', 'text/plain'], ['ACCEPT', 'text/html']],
+            null,
+            new Map([['X-Other', '2']]),
+        );
+
+        // Assert.
+        expect(toPojo(result)).to.deep.equal({
+            accept: 'text/plain, text/html',
+            'x-trace': '1',
+            'x-other': '2',
+        });
+    });
+    test("Should not modify the sources.", () => {
+        // Arrange.
+        const first = new Headers([['Accept', 'text/plain']]);
+        const second = new Headers([['Accept', 'text/html']]);
+
+        // Act.
+        const result = mergeHeaders(first, second);
+
+        // Assert.
+        expect(result).not.to.equal(first);
+        expect(first.get('accept')).to.equal('text/plain');
+        expect(result.get('accept')).to.equal('text/html');
+    });
+    test("Should return an empty Headers object when there are no sources.", () => {
+        // Act.
+        const result = mergeHeaders();
+
+        // Assert.
+        expect([...result]).to.deep.equal([]);
+    });
+});
+
+describe('parseLinkHeader', () => {
+    [
+        {
+            value: '<https://example.com/2>; rel="next"',
+            text: 'a single link',
+            expected: [{ href: 'https://example.com/2', rel: ['next'], params: { rel: 'next' } }],
+        },
+        {
+            value: '</a;b,c>; rel=next, </first>; REL="First Start"; title="x, y"',
+            text: 'links with delimiters inside the URI and inside quoted strings',
+            expected: [
+                { href: '/a;b,c', rel: ['next'], params: { rel: 'next' } },
+                { href: '/first', rel: ['first', 'start'], params: { rel: 'First Start', title: 'x, y' } },
+            ],
+        },
+        {
+            value: '</a>; rel=prev; rel=next',
+            text: 'a link with a repeated rel parameter',
+            expected: [{ href: '/a', rel: ['prev'], params: { rel: 'prev' } }],
+        },
+        {
+            value: '</a>',
+            text: 'a link without parameters',
+            expected: [{ href: '/a', rel: [], params: {} }],
+        },
+        {
+            value: 'garbage, </a>; rel=next',
+            text: 'a malformed link followed by a valid one',
+            expected: [{ href: '/a', rel: ['next'], params: { rel: 'next' } }],
+        },
+        {
+            value: null,
+            text: 'a missing header',
+            expected: [],
+        },
+    ].forEach(tc => {
+        test(`Should parse ${tc.text}.`, () => {
+            // Act.
+            const result = parseLinkHeader(tc.value);
+
+            // Assert.
+            expect(result).to.deep.equal(tc.expected);
+        });
+    });
+});
+
+describe('parseRetryAfter', () => {
+    [
+        { value: '120', expected: 120000 },
+        { value: ' 0 ', expected: 0 },
+        { value: 'soon', expected: undefined },
+        { value: '', expected: undefined },
+        { value: null, expected: undefined },
+        { value: '-5', expected: undefined },
+    ].forEach(tc => {
+        test(`Should return ${tc.expected} for the value '${tc.value}'.`, () => {
+            // Act.
+            const result = parseRetryAfter(tc.value);
+
+            // Assert.
+            expect(result).to.equal(tc.expected);
+        });
+    });
+    test("Should return the milliseconds left until the given HTTP date.", () => {
+        // Arrange.
+        const date = new Date(Date.now() + 60000).toUTCString();
+
+        // Act.
+        const result = parseRetryAfter(date);
+
+        // Assert.
+        expect(result).to.be.within(58000, 60000);
+    });
+    test("Should return zero for HTTP dates in the past.", () => {
+        // Act.
+        const result = parseRetryAfter('Wed, 21 Oct 2015 07:28:00 GMT');
+
+        // Assert.
+        expect(result).to.equal(0);
+    });
+});
+
+describe('parseCacheControl', () => {
+    [
+        {
+            value: 'public, max-age=60',
+            expected: { public: true, 'max-age': '60' },
+        },
+        {
+            value: 'No-Cache="Set-Cookie, X-Foo", MAX-AGE = 0',
+            expected: { 'no-cache': 'Set-Cookie, X-Foo', 'max-age': '0' },
+        },
+        {
+            value: 'max-age=10, max-age=20',
+            expected: { 'max-age': '10' },
+        },
+        {
+            value: ' , private,,',
+            expected: { private: true },
+        },
+        {
+            value: null,
+            expected: {},
+        },
+    ].forEach(tc => {
+        test(`Should parse '${tc.value}'.`, () => {
+            // Act.
+            const result = parseCacheControl(tc.value);
+
+            // Assert.
+            expect(result).to.deep.equal(tc.expected);
+        });
+    });
+});
+
+describe('parseContentDisposition', () => {
+    [
+        {
+            value: 'attachment; filename="report.pdf"',
+            text: 'a quoted file name',
+            expected: { type: 'attachment', filename: 'report.pdf', params: { filename: 'report.pdf' } },
+        },
+        {
+            value: 'Inline; FileName=data.csv',
+            text: 'a token file name',
+            expected: { type: 'inline', filename: 'data.csv', params: { filename: 'data.csv' } },
+        },
+        {
+            value: 'attachment; filename="a \\"b\\".txt"',
+            text: 'a file name with escaped quotes',
+            expected: { type: 'attachment', filename: 'a "b".txt', params: { filename: 'a "b".txt' } },
+        },
+        {
+            value: "attachment; filename=\"resume.pdf\"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf",
+            text: 'an RFC 5987 file name',
+            expected: {
+                type: 'attachment',
+                filename: 'résumé.pdf',
+                params: { filename: 'resume.pdf', 'filename*': "UTF-8''r%C3%A9sum%C3%A9.pdf" },
+            },
+        },
+        {
+            value: "attachment; filename*=iso-8859-1'en'%A3%20rates.txt",
+            text: 'an RFC 5987 file name in ISO-8859-1',
+            expected: {
+                type: 'attachment',
+                filename: '£ rates.txt',
+                params: { 'filename*': "iso-8859-1'en'%A3%20rates.txt" },
+            },
+        },
+        {
+            value: "attachment; filename=fallback.txt; filename*=UTF-8''%FF",
+            text: 'an undecodable RFC 5987 file name',
+            expected: {
+                type: 'attachment',
+                filename: 'fallback.txt',
+                params: { filename: 'fallback.txt', 'filename*': "UTF-8''%FF" },
+            },
+        },
+        {
+            value: 'inline',
+            text: 'a disposition type without parameters',
+            expected: { type: 'inline', filename: undefined, params: {} },
+        },
+    ].forEach(tc => {
+        test(`Should parse ${tc.text}.`, () => {
+            // Act.
+            const result = parseContentDisposition(tc.value);
+
+            // Assert.
+            expect(result).to.deep.equal(tc.expected);
+        });
+    });
+    [null, undefined, '', '  '].forEach(value => {
+        test(`Should return undefined for the value '${value}'.`, () => {
+            // Act.
+            const result = parseContentDisposition(value);
+
+            // Assert.
+            expect(result).to.equal(undefined);
+        });
+    });
+});
+
+describe('parseWwwAuthenticate', () => {
+    [
+        {
+            value: 'Bearer realm="api", error="invalid_token", error_description="The token, well, expired"',
+            text: 'a challenge with parameters',
+            expected: [{
+                scheme: 'Bearer',
+                params: { realm: 'api', error: 'invalid_token', error_description: 'The token, well, expired' },
+            }],
+        },
+        {
+            value: 'Newauth realm="apps", type=1, title="Login to \\"apps\\"", Basic realm="simple"',
+            text: 'several challenges',
+            expected: [
+                { scheme: 'Newauth', params: { realm: 'apps', type: '1', title: 'Login to "apps"' } },
+                { scheme: 'Basic', params: { realm: 'simple' } },
+            ],
+        },
+        {
+            value: 'Negotiate abc123+/==, Basic',
+            text: 'a challenge with a token68 value and a challenge without parameters',
+            expected: [
+                { scheme: 'Negotiate', token68: 'abc123+/==', params: {} },
+                { scheme: 'Basic', params: {} },
+            ],
+        },
+        {
+            value: 'Basic REALM=x',
+            text: 'a challenge with upper-cased parameter names',
+            expected: [{ scheme: 'Basic', params: { realm: 'x' } }],
+        },
+        {
+            value: null,
+            text: 'a missing header',
+            expected: [],
+        },
+    ].forEach(tc => {
+        test(`Should parse ${tc.text}.`, () => {
+            // Act.
+            const result = parseWwwAuthenticate(tc.value);
+
+            // Assert.
+            expect(result).to.deep.equal(tc.expected);
+        });
+    });
+});
+
+describe('parseStructuredItem', () => {
+    [
+        { value: '42', expected: { value: 42, params: {} } },
+        { value: '-4.5', expected: { value: -4.5, params: {} } },
+        { value: '"say \\"hi\\""', expected: { value: 'say "hi"', params: {} } },
+        { value: 'text/html', expected: { value: { token: 'text/html' }, params: {} } },
+        { value: '?1', expected: { value: true, params: {} } },
+        { value: '?0', expected: { value: false, params: {} } },
+        { value: ':aGk=:', expected: { value: new Uint8Array([104, 105]), params: {} } },
+        { value: ' 5; a; b=?0; c="x" ', expected: { value: 5, params: { a: true, b: false, c: 'x' } } },
+    ].forEach(tc => {
+        test(`Should parse the item '${tc.value}'.`, () => {
+            // Act.
+            const result = parseStructuredItem(tc.value);
+
+            // Assert.
+            expect(result).to.deep.equal(tc.expected);
+        });
+    });
+    [
+        '',
+        '1234567890123456',
+        '1.2345',
+        '"unterminated',
+        '"bad \\x escape"',
+        '?2',
+        '1 2',
+        '5; A=1',
+        'ñ',
+    ].forEach(value => {
+        test(`Should return undefined for the invalid item '${value}'.`, () => {
+            // Act.
+            const result = parseStructuredItem(value);
+
+            // Assert.
+            expect(result).to.equal(undefined);
+        });
+    });
+});
+
+describe('parseStructuredList', () => {
+    [
+        {
+            value: 'sugar, tea, rum',
+            expected: [
+                { value: { token: 'sugar' }, params: {} },
+                { value: { token: 'tea' }, params: {} },
+                { value: { token: 'rum' }, params: {} },
+            ],
+        },
+        {
+            value: '("foo" "bar");lvl=5, ()',
+            expected: [
+                { value: [{ value: 'foo', params: {} }, { value: 'bar', params: {} }], params: { lvl: 5 } },
+                { value: [], params: {} },
+            ],
+        },
+        {
+            value: '',
+            expected: [],
+        },
+    ].forEach(tc => {
+        test(`Should parse the list '${tc.value}'.`, () => {
+            // Act.
+            const result = parseStructuredList(tc.value);
+
+            // Assert.
+            expect(result).to.deep.equal(tc.expected);
+        });
+    });
+    ['a,', 'a,,b', '(a b', '(a,b)'].forEach(value => {
+        test(`Should return undefined for the invalid list '${value}'.`, () => {
+            // Act.
+            const result = parseStructuredList(value);
+
+            // Assert.
+            expect(result).to.equal(undefined);
+        });
+    });
+});
+
+describe('parseStructuredDictionary', () => {
+    [
+        {
+            value: 'u=1, i',
+            expected: { u: { value: 1, params: {} }, i: { value: true, params: {} } },
+        },
+        {
+            value: 'a=(1 2), b;x=?0, a=3',
+            expected: { a: { value: 3, params: {} }, b: { value: true, params: { x: false } } },
+        },
+    ].forEach(tc => {
+        test(`Should parse the dictionary '${tc.value}'.`, () => {
+            // Act.
+            const result = parseStructuredDictionary(tc.value);
+
+            // Assert.
+            expect(result).to.deep.equal(tc.expected);
+        });
+    });
+    ['A=1', 'a=1,', '=1'].forEach(value => {
+        test(`Should return undefined for the invalid dictionary '${value}'.`, () => {
+            // Act.
+            const result = parseStructuredDictionary(value);
+
+            // Assert.
+            expect(result).to.equal(undefined);
+        });
+    });
+    test("Should return undefined when there is no value.", () => {
+        // Act.
+        const result = parseStructuredDictionary(null);
+
+        // Assert.
+        expect(result).to.equal(undefined);
+    });
+});
@@ -10,7 +10,28 @@ describe('index', () => {
             'setHeaders',
             'getHeader',
             'hasHeader',
+            'removeHeader',
+            'appendHeader',
+            'mergeHeaders',
+            'toHeaders',
+            'toPojo',
+            'parseLinkHeader',
+            'parseRetryAfter',
+            'parseCacheControl',
+            'parseContentDisposition',
+            'parseWwwAuthenticate',
+            'parseStructuredItem',
+            'parseStructuredList',
+            'parseStructuredDictionary',
             'StatusCodes',
+            'getReasonPhrase',
+            'isInformational',
+            'isOk',
+            'isRedirect',
+            'isClientError',
+            'isServerError',
+            'createQuerySerializer',
+            'MemoryCacheStore',
         ];
 
         // Act.
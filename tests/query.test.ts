@@ -0,0 +1,78 @@
+import { expect } from 'chai';
+import { describe, test } from 'mocha';
+import { createQuerySerializer } from '../src/query.js';
+import type { QueryInput, QuerySerializerOptions } from '../src/types.js';
+
+describe('createQuerySerializer', () => {
+    [
+        {
+            query: { a: 'hello world', b: 1, c: true },
+            expected: 'a=hello%20world&b=1&c=true',
+            text: 'a POJO with primitive values',
+        },
+        {
+            query: new URLSearchParams([['a', '1'], ['a', '2']]),
+            expected: 'a=1&a=2',
+            text: 'a URLSearchParams object',
+        },
+        {
+            query: [['a', '1'], ['a', 2]] as [string, string | number][],
+            expected: 'a=1&a=2',
+            text: 'an array of tuples',
+        },
+        {
+            query: { a: null, b: undefined, c: 'x' },
+            expected: 'c=x',
+            text: 'a POJO with null and undefined values',
+        },
+        {
+            query: { d: new Date(Date.UTC(2025, 0, 2, 3, 4, 5)) },
+            expected: 'd=2025-01-02T03%3A04%3A05.000Z',
+            text: 'a POJO with a date',
+        },
+        {
+            query: { filter: { status: 'active', owner: { id: 5 } } },
+            expected: 'filter[status]=active&filter[owner][id]=5',
+            text: 'a POJO with nested objects',
+        },
+        {
+            query: { ids: [1, 2] },
+            expected: 'ids=1&ids=2',
+            text: 'a POJO with an array (default format)',
+        },
+        {
+            query: { ids: [1, 2] },
+            options: { arrayFormat: 'repeat' },
+            expected: 'ids=1&ids=2',
+            text: 'a POJO with an array (repeat format)',
+        },
+        {
+            query: { ids: [1, null, 2] },
+            options: { arrayFormat: 'comma' },
+            expected: 'ids=1,2',
+            text: 'a POJO with an array (comma format)',
+        },
+        {
+            query: { ids: [1, 2] },
+            options: { arrayFormat: 'brackets' },
+            expected: 'ids[]=1&ids[]=2',
+            text: 'a POJO with an array (brackets format)',
+        },
+        {
+            query: { items: [{ id: 1 }, { id: 2 }] },
+            expected: 'items[0][id]=1&items[1][id]=2',
+            text: 'a POJO with an array of objects',
+        },
+    ].forEach(tc => {
+        test(`Should serialize ${tc.text}.`, () => {
+            // Arrange.
+            const serialize = createQuerySerializer(tc.options as QuerySerializerOptions);
+
+            // Act.
+            const result = serialize(tc.query as QueryInput);
+
+            // Assert.
+            expect(result).to.equal(tc.expected);
+        });
+    });
+});